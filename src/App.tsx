@@ -1,6 +1,10 @@
 import { Suspense } from "react";
 import { useRoutes, Routes, Route } from "react-router-dom";
 import Home from "./components/home";
+import ReplayViewer from "./components/ReplayViewer";
+import Benchmark from "./components/Benchmark";
+import HighScores from "./components/HighScores";
+import StageEditor from "./components/StageEditor";
 import routes from "tempo-routes";
 
 function App() {
@@ -9,6 +13,10 @@ function App() {
       <>
         <Routes>
           <Route path="/" element={<Home />} />
+          <Route path="/replay" element={<ReplayViewer />} />
+          <Route path="/benchmark" element={<Benchmark />} />
+          <Route path="/high-scores" element={<HighScores />} />
+          <Route path="/editor" element={<StageEditor />} />
         </Routes>
         {import.meta.env.VITE_TEMPO === "true" && useRoutes(routes)}
       </>
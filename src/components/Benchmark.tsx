@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  BENCHMARK_ENEMIES,
+  BENCHMARK_PROJECTILES,
+  createBenchmarkWorld,
+  refillBenchmarkWorld,
+} from "../game/benchmark";
+import { advanceClock, createClock } from "../game/loop";
+import { createInput, step } from "../game/world";
+import { drawWorld } from "../lib/canvasRenderer";
+
+interface BenchmarkStats {
+  fps: number;
+  stepMs: number;
+  frameMs: number;
+}
+
+// Stress scene with a full playfield to check the game holds 60 FPS
+const Benchmark: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [stats, setStats] = useState<BenchmarkStats>({
+    fps: 0,
+    stepMs: 0,
+    frameMs: 0,
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const world = createBenchmarkWorld(canvas.clientWidth, canvas.clientHeight);
+    const input = createInput();
+    const clock = createClock();
+    let animationFrameId: number;
+    let lastTimestamp: number | null = null;
+    let fps = 0;
+    let stepMs = 0;
+    let frameMs = 0;
+    let lastReport = 0;
+
+    const loop = (timestamp: number) => {
+      const frameStart = performance.now();
+
+      if (lastTimestamp !== null && timestamp > lastTimestamp) {
+        const frameFps = 1000 / (timestamp - lastTimestamp);
+        fps = fps ? fps * 0.95 + frameFps * 0.05 : frameFps;
+      }
+      lastTimestamp = timestamp;
+
+      const alpha = advanceClock(clock, timestamp, (deltaTime) => {
+        const stepStart = performance.now();
+        step(world, deltaTime, input);
+        refillBenchmarkWorld(world);
+        stepMs = stepMs * 0.95 + (performance.now() - stepStart) * 0.05;
+      });
+
+      drawWorld(ctx, world, { alpha, now: timestamp, debug: true, fps });
+      frameMs = frameMs * 0.95 + (performance.now() - frameStart) * 0.05;
+
+      // Update the readout a few times a second rather than every frame
+      if (timestamp - lastReport > 250) {
+        lastReport = timestamp;
+        setStats({ fps, stepMs, frameMs });
+      }
+
+      animationFrameId = requestAnimationFrame(loop);
+    };
+
+    animationFrameId = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+    };
+  }, []);
+
+  const holds60 = stats.fps >= 59;
+
+  return (
+    <div className="flex flex-col w-full h-screen bg-gray-900 text-white">
+      <div className="flex items-center justify-between p-2 border-b border-gray-700">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+        <div className="text-sm">
+          {BENCHMARK_PROJECTILES} projectiles × {BENCHMARK_ENEMIES} enemies
+        </div>
+        <div className="text-sm tabular-nums">
+          <span className={holds60 ? "text-green-400" : "text-red-400"}>
+            {stats.fps.toFixed(1)} FPS
+          </span>
+          <span className="ml-4">step {stats.stepMs.toFixed(2)} ms</span>
+          <span className="ml-4">frame {stats.frameMs.toFixed(2)} ms</span>
+        </div>
+      </div>
+      <div className="relative flex-1 bg-black">
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      </div>
+    </div>
+  );
+};
+
+export default Benchmark;
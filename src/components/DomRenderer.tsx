@@ -0,0 +1,442 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { getBossDefinition } from "../game/bossDefinitions";
+import { BOSS_DEFEAT_TIME } from "../game/bosses";
+import { getBulletPattern } from "../game/bulletPatterns";
+import { DRONE_SIZE, getDronePositions } from "../game/drones";
+import { getArchetype } from "../game/enemyArchetypes";
+import { EXPLOSION_TIME } from "../game/explosions";
+import { interpolate } from "../game/loop";
+import { MAX_CHARGE_LEVEL } from "../game/projectiles";
+import { POPUP_TIME } from "../game/scoring";
+import { GameWorld } from "../game/types";
+
+interface DomRendererProps {
+  world: GameWorld;
+  alpha: number; // Interpolation between the last two simulation ticks
+}
+
+// Renders the world as DOM nodes. Kept as a fallback for the canvas renderer.
+const DomRenderer: React.FC<DomRendererProps> = ({ world, alpha }) => {
+  const { player, enemies, projectiles, enemyBullets, boss, powerUps } = world;
+  const bossPosition = boss && interpolate(boss, alpha);
+  const bossDefinition = boss && getBossDefinition(boss.id);
+  const canvasSize = { width: world.width, height: world.height };
+  const playerPosition = interpolate(player, alpha);
+  const chargeStartTime = world.chargeStartTime;
+  const currentChargeLevel = world.currentChargeLevel;
+  const maxChargeLevel = MAX_CHARGE_LEVEL;
+
+  return (
+    <>
+      {/* Slow motion tint */}
+      {player.powerUps.slowMotion?.active && (
+        <div className="absolute inset-0 bg-indigo-400/10 pointer-events-none" />
+      )}
+
+      {/* Player turret */}
+      <motion.div
+        className="absolute rounded-t-lg z-50 overflow-visible"
+        style={{
+          width: player.width,
+          height: player.height,
+          left: playerPosition.x,
+          bottom: canvasSize.height - playerPosition.y - player.height,
+        }}
+      >
+        {/* Player body with glow effect */}
+        <div
+          className="w-full h-full rounded-t-lg relative"
+          style={{
+            background: "linear-gradient(to bottom, #4299e1, #3182ce)",
+            boxShadow:
+              "0 0 15px 5px rgba(66, 153, 225, 0.6), 0 0 30px 10px rgba(66, 153, 225, 0.3)",
+          }}
+        >
+          {/* Inner details */}
+          <div className="absolute inset-2 rounded-t-md bg-blue-700 opacity-70"></div>
+          <div className="absolute inset-x-[30%] inset-y-[40%] rounded-full bg-blue-300 opacity-50"></div>
+        </div>
+
+        {/* Weapon barrel */}
+        <div className="absolute top-[-10px] left-[50%] w-4 h-10 bg-gray-700 transform translate-x-[-50%] rounded-t-md shadow-md"></div>
+
+        {/* Cooldown indicator */}
+        {player.currentCooldown > 0 && (
+          <div
+            className="absolute bottom-0 left-0 bg-red-500 opacity-70 h-1.5 z-20"
+            style={{
+              width: `${(player.currentCooldown / player.cooldown) * 100}%`,
+            }}
+          ></div>
+        )}
+
+        {/* Charge indicator */}
+        {chargeStartTime !== null && currentChargeLevel > 0 && (
+          <div className="absolute top-[-20px] left-0 w-full z-20">
+            <div className="h-2.5 bg-gray-800 rounded-full overflow-hidden shadow-inner">
+              <div
+                className={`h-full ${currentChargeLevel >= maxChargeLevel ? "bg-red-600 animate-pulse" : "bg-orange-400"}`}
+                style={{
+                  width: `${(currentChargeLevel / maxChargeLevel) * 100}%`,
+                }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        {/* Shield effect */}
+        {(player.powerUps.shield?.active || player.shieldActive) && (
+          <div className="absolute inset-[-15px] rounded-full border-4 border-cyan-400 opacity-70 animate-pulse z-10"></div>
+        )}
+      </motion.div>
+
+      {/* Helper drones circling the player */}
+      {getDronePositions({ ...player, ...playerPosition }, world.time).map(
+        (drone, index) => (
+          <div
+            key={index}
+            className="absolute rounded-full bg-emerald-400 shadow-[0_0_8px_2px_rgba(52,211,153,0.7)]"
+            style={{
+              width: DRONE_SIZE,
+              height: DRONE_SIZE,
+              left: drone.x,
+              top: drone.y,
+            }}
+          />
+        ),
+      )}
+
+      {/* Projectiles */}
+      {projectiles.map((projectile) => {
+        const position = interpolate(projectile, alpha);
+        // Determine projectile color and effects based on type and properties
+        let projectileColor = "bg-yellow-400";
+        let projectileEffect = "";
+        let projectileGlow = "";
+        // Add spraying effect for certain bullet types
+        const isSprayingBullet =
+          projectile.bulletType === "plasma" || projectile.isSpecial;
+
+        if (projectile.isSpecial) {
+          projectileColor = "bg-purple-500";
+          projectileGlow = "shadow-[0_0_10px_3px_rgba(147,51,234,0.7)]";
+          projectileEffect = "animate-pulse";
+        } else if (projectile.isCharged) {
+          // Different colors based on charge level
+          const chargeColors = [
+            "bg-yellow-400", // Level 0
+            "bg-orange-400", // Level 1
+            "bg-red-400", // Level 2
+            "bg-red-500", // Level 3
+            "bg-red-600", // Level 4
+            "bg-red-700", // Level 5
+          ];
+          const chargeGlows = [
+            "shadow-[0_0_5px_2px_rgba(250,204,21,0.5)]", // Level 0
+            "shadow-[0_0_6px_2px_rgba(251,146,60,0.5)]", // Level 1
+            "shadow-[0_0_7px_3px_rgba(248,113,113,0.6)]", // Level 2
+            "shadow-[0_0_8px_3px_rgba(239,68,68,0.6)]", // Level 3
+            "shadow-[0_0_9px_4px_rgba(220,38,38,0.7)]", // Level 4
+            "shadow-[0_0_10px_5px_rgba(185,28,28,0.7)]", // Level 5
+          ];
+          projectileColor =
+            chargeColors[Math.min(projectile.chargeLevel || 0, 5)];
+          projectileGlow =
+            chargeGlows[Math.min(projectile.chargeLevel || 0, 5)];
+        } else {
+          // Different styles based on bullet type
+          switch (projectile.bulletType) {
+            case "laser":
+              projectileColor = "bg-cyan-400";
+              projectileGlow = "shadow-[0_0_8px_3px_rgba(34,211,238,0.6)]";
+              break;
+            case "plasma":
+              projectileColor = "bg-green-400";
+              projectileGlow = "shadow-[0_0_8px_3px_rgba(74,222,128,0.6)]";
+              projectileEffect = "animate-bounce";
+              break;
+            case "explosive":
+              projectileColor = "bg-orange-500";
+              projectileGlow = "shadow-[0_0_8px_3px_rgba(249,115,22,0.6)]";
+              projectileEffect = "animate-ping";
+              break;
+            default: // standard
+              projectileColor = "bg-yellow-400";
+              projectileGlow = "shadow-[0_0_5px_2px_rgba(250,204,21,0.5)]";
+          }
+        }
+
+        return (
+          <motion.div
+            key={projectile.id}
+            className={`absolute ${projectileColor} ${projectileGlow} ${projectileEffect} rounded-sm z-40`}
+            style={{
+              width: projectile.width,
+              height: projectile.height,
+              left: position.x,
+              top: position.y,
+              transform: isSprayingBullet
+                ? `rotate(${Math.sin(Date.now() * 0.01 + parseInt(projectile.id)) * 15}deg)`
+                : "none",
+            }}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+          />
+        );
+      })}
+
+      {/* Enemies */}
+      {enemies.map((enemy) => {
+        const position = interpolate(enemy, alpha);
+        const { sprite, health: maxHealth } = getArchetype(enemy.type);
+
+        return (
+          <motion.div
+            key={enemy.id}
+            // Carriers glow so the player knows what to shoot for
+            className={`absolute rounded-md ${enemy.dropsPowerUp ? "shadow-[0_0_14px_4px_rgba(250,204,21,0.8)] animate-pulse" : ""}`}
+            style={{
+              width: enemy.width,
+              height: enemy.height,
+              left: position.x,
+              top: position.y,
+              backgroundColor: sprite.color,
+              backgroundImage: sprite.image ? `url('${sprite.image}')` : "none",
+              backgroundSize: "cover",
+              backgroundPosition: "center",
+            }}
+            initial={{ opacity: 0, y: -50 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            {/* Health bar for enemies with more than 1 health, never wider
+                than the enemy even if it has more than its type's maximum */}
+            {enemy.health > 1 && (
+              <div className="absolute top-[-8px] left-0 w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500"
+                  style={{
+                    width: `${Math.min(enemy.health / maxHealth, 1) * 100}%`,
+                  }}
+                ></div>
+              </div>
+            )}
+          </motion.div>
+        );
+      })}
+
+      {/* Boss and its weak points */}
+      {boss && (
+        <div
+          className={`absolute rounded-2xl ${boss.state === "intro" ? "animate-pulse" : ""}`}
+          style={{
+            width: boss.width,
+            height: boss.height,
+            left: bossPosition.x,
+            top: bossPosition.y,
+            backgroundColor: bossDefinition.sprite.color,
+            boxShadow: `0 0 20px 4px ${bossDefinition.sprite.color}`,
+            opacity:
+              boss.state === "defeated"
+                ? Math.max(1 - boss.stateTime / BOSS_DEFEAT_TIME, 0)
+                : 1,
+          }}
+        >
+          {bossDefinition.weakPoints.map((point, index) => (
+            <div
+              key={point.id}
+              className={`absolute rounded-lg ${boss.weakPointHealth[index] > 0 ? "bg-orange-500 animate-pulse" : "bg-gray-800"}`}
+              style={{
+                left: point.x,
+                top: point.y,
+                width: point.width,
+                height: point.height,
+              }}
+            />
+          ))}
+        </div>
+      )}
+      {boss?.state === "intro" && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none text-red-500 font-bold animate-pulse">
+          <div className="text-3xl">WARNING</div>
+          <div className="text-lg">{bossDefinition.name}</div>
+        </div>
+      )}
+
+      {/* Explosive blasts, growing and fading out */}
+      {world.explosions.map((explosion, index) => {
+        const progress = explosion.age / EXPLOSION_TIME;
+        const radius = explosion.radius * (0.4 + 0.6 * progress);
+
+        return (
+          <div
+            key={index}
+            className="absolute rounded-full border-4 border-orange-500 bg-orange-500/30 pointer-events-none"
+            style={{
+              width: radius * 2,
+              height: radius * 2,
+              left: explosion.x - radius,
+              top: explosion.y - radius,
+              opacity: 1 - progress,
+            }}
+          />
+        );
+      })}
+
+      {/* Bomb shockwave, thinning out as it spreads */}
+      {world.shockwave && (
+        <div
+          className="absolute rounded-full border-sky-100 shadow-[0_0_20px_#38bdf8] pointer-events-none"
+          style={{
+            width: world.shockwave.radius * 2,
+            height: world.shockwave.radius * 2,
+            left: world.shockwave.x - world.shockwave.radius,
+            top: world.shockwave.y - world.shockwave.radius,
+            borderWidth:
+              12 - (world.shockwave.radius / world.shockwave.maxRadius) * 8,
+            opacity:
+              1 - (world.shockwave.radius / world.shockwave.maxRadius) * 0.8,
+          }}
+        />
+      )}
+
+      {/* Score popups, rising and fading */}
+      {world.scorePopups.map((popup, index) => {
+        const progress = popup.age / POPUP_TIME;
+
+        return (
+          <div
+            key={index}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center font-bold pointer-events-none ${
+              popup.label ? "text-yellow-400" : "text-white"
+            }`}
+            style={{
+              left: popup.x,
+              top: popup.y - progress * 30,
+              opacity: 1 - progress,
+            }}
+          >
+            <span className="text-sm">+{popup.points}</span>
+            {popup.label && <span className="text-xs">{popup.label}</span>}
+          </div>
+        );
+      })}
+
+      {/* Enemy bullets */}
+      {enemyBullets.map((bullet) => {
+        const position = interpolate(bullet, alpha);
+        const { color } = getBulletPattern(bullet.pattern);
+
+        return (
+          <div
+            key={bullet.id}
+            className="absolute rounded-full"
+            style={{
+              width: bullet.width,
+              height: bullet.height,
+              left: position.x,
+              top: position.y,
+              backgroundColor: color,
+              boxShadow: `0 0 8px 2px ${color}`,
+            }}
+          />
+        );
+      })}
+
+      {/* Power-ups */}
+      {powerUps.map((powerUp) => {
+        const position = interpolate(powerUp, alpha);
+        let powerUpColor = "bg-blue-400";
+        let powerUpIcon = "⚡";
+
+        switch (powerUp.type) {
+          case "rapidFire":
+            powerUpColor = "bg-yellow-400";
+            powerUpIcon = "⚡";
+            break;
+          case "shield":
+            powerUpColor = "bg-cyan-400";
+            powerUpIcon = "🛡️";
+            break;
+          case "multiShot":
+            powerUpColor = "bg-purple-400";
+            powerUpIcon = "🔱";
+            break;
+          case "bomb":
+            powerUpColor = "bg-red-400";
+            powerUpIcon = "💣";
+            break;
+          case "magnet":
+            powerUpColor = "bg-pink-400";
+            powerUpIcon = "🧲";
+            break;
+          case "slowMotion":
+            powerUpColor = "bg-indigo-400";
+            powerUpIcon = "⏳";
+            break;
+          case "drones":
+            powerUpColor = "bg-emerald-400";
+            powerUpIcon = "🛸";
+            break;
+          case "piercing":
+            powerUpColor = "bg-orange-400";
+            powerUpIcon = "🎯";
+            break;
+          case "health":
+            powerUpColor = "bg-green-500";
+            powerUpIcon = "❤️";
+            break;
+        }
+
+        return (
+          <motion.div
+            key={powerUp.id}
+            className={`absolute ${powerUpColor} rounded-full flex items-center justify-center text-white font-bold`}
+            style={{
+              width: powerUp.width,
+              height: powerUp.height,
+              left: position.x,
+              top: position.y,
+            }}
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            whileHover={{ scale: 1.2 }}
+          >
+            {powerUpIcon}
+          </motion.div>
+        );
+      })}
+
+      {/* Active power-up indicators */}
+      <div className="absolute top-2 right-2 flex flex-col gap-2">
+        {player.powerUps.rapidFire?.active && (
+          <div className="bg-yellow-400 rounded-full w-8 h-8 flex items-center justify-center text-xs animate-pulse">
+            ⚡
+          </div>
+        )}
+        {player.powerUps.multiShot?.active && (
+          <div className="bg-purple-400 rounded-full w-8 h-8 flex items-center justify-center text-xs animate-pulse">
+            🔱
+          </div>
+        )}
+        {player.powerUps.magnet?.active && (
+          <div className="bg-pink-400 rounded-full w-8 h-8 flex items-center justify-center text-xs animate-pulse">
+            🧲
+          </div>
+        )}
+        {player.powerUps.drones?.active && (
+          <div className="bg-emerald-400 rounded-full w-8 h-8 flex items-center justify-center text-xs animate-pulse">
+            🛸
+          </div>
+        )}
+        {player.powerUps.piercing?.active && (
+          <div className="bg-orange-400 rounded-full w-8 h-8 flex items-center justify-center text-xs animate-pulse">
+            🎯
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default DomRenderer;
@@ -0,0 +1,125 @@
+import React, { useMemo, useRef, useState } from "react";
+import { getArchetype } from "../game/enemyArchetypes";
+import { getLaneAt, traceWave } from "../game/stageEditor";
+import { LANE_COUNT, WaveStep } from "../game/stageScripts";
+
+// Playfield size the preview is traced at; lanes scale with the real one
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 600;
+const MARGIN = 20; // px of the preview kept clear above the formation
+
+interface FormationPreviewProps {
+  wave: WaveStep;
+  onChange: (wave: WaveStep) => void;
+}
+
+// The playfield with a wave's formation and the paths its enemies fly.
+// Dragging sideways moves the formation to another lane.
+const FormationPreview: React.FC<FormationPreviewProps> = ({
+  wave,
+  onChange,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const { starts, paths } = useMemo(
+    () => traceWave(wave, PREVIEW_WIDTH, PREVIEW_HEIGHT),
+    [wave],
+  );
+  const { width, height, sprite } = getArchetype(wave.archetype);
+  const top = Math.min(...starts.map((start) => start.y)) - MARGIN;
+  const laneWidth = PREVIEW_WIDTH / LANE_COUNT;
+  const canDrag = wave.formation !== "scatter";
+
+  // Snap the formation to the lane under the pointer
+  const dragTo = (e: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return;
+
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(
+      matrix.inverse(),
+    );
+    const lane = getLaneAt(point.x, PREVIEW_WIDTH);
+    if (lane !== wave.lane) onChange({ ...wave, lane });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!canDrag) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+    dragTo(e);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 ${top} ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT - top}`}
+      className={`h-full w-full touch-none ${
+        canDrag ? (dragging ? "cursor-grabbing" : "cursor-grab") : ""
+      }`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => dragging && dragTo(e)}
+      onPointerUp={() => setDragging(false)}
+      onPointerCancel={() => setDragging(false)}
+    >
+      {/* Lanes, with the formation's own highlighted */}
+      {Array.from({ length: LANE_COUNT }, (_, lane) => (
+        <rect
+          key={lane}
+          x={lane * laneWidth}
+          y={top}
+          width={laneWidth}
+          height={PREVIEW_HEIGHT - top}
+          fill={
+            canDrag && lane === (wave.lane ?? Math.floor(LANE_COUNT / 2))
+              ? "rgba(59, 130, 246, 0.15)"
+              : lane % 2
+                ? "rgba(255, 255, 255, 0.03)"
+                : "transparent"
+          }
+        />
+      ))}
+      <rect
+        x={0}
+        y={0}
+        width={PREVIEW_WIDTH}
+        height={PREVIEW_HEIGHT}
+        fill="none"
+        stroke="#4b5563"
+      />
+
+      {paths.map((path, index) => (
+        <polyline
+          key={index}
+          points={path.map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke={sprite.color}
+          strokeOpacity={0.6}
+          strokeDasharray="4 4"
+        />
+      ))}
+      {starts.map(({ x, y }, index) => (
+        <rect
+          key={index}
+          x={x}
+          y={y}
+          width={width}
+          height={height}
+          rx={4}
+          fill={sprite.color}
+        />
+      ))}
+
+      {/* The player, for scale */}
+      <rect
+        x={PREVIEW_WIDTH / 2 - 30}
+        y={PREVIEW_HEIGHT - 70}
+        width={60}
+        height={60}
+        rx={8}
+        fill="#3b82f6"
+      />
+    </svg>
+  );
+};
+
+export default FormationPreview;
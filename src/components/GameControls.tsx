@@ -9,54 +9,62 @@ import {
   Zap,
   Shield,
   RotateCcw,
-  Laser,
   Flame,
   Target,
+  Lock,
+  Bomb,
 } from "lucide-react";
-import { BulletType } from "@/hooks/useProjectiles";
+import { SPECIAL_COST } from "@/game/abilities";
+import { BulletType } from "@/game/types";
 
 interface GameControlsProps {
   onMove: (position: number) => void;
+  onShootStart?: () => void;
   onShoot: (chargeLevel?: number) => void;
   onSpecialAbility?: () => void;
   onShieldActivate?: () => void;
+  onBomb?: () => void;
   onChangeBulletType?: (type: BulletType) => void;
   weaponCooldown?: number;
-  specialAbilityCooldown?: number;
-  specialAbilityCharge?: number;
-  shieldCooldown?: number;
+  chargeLevel?: number;
+  maxChargeLevel?: number;
+  specialAbilityCooldown?: number; // seconds
+  specialAbilityCharge?: number; // percent
+  shieldCooldown?: number; // seconds
   shieldActive?: boolean;
+  bombs?: number; // Bombs held
   weaponType?: string;
   currentBulletType?: BulletType;
+  unlockedBulletTypes?: BulletType[]; // Others are shown locked
   isGameActive?: boolean;
-  gameStatus?: "menu" | "playing" | "paused" | "gameOver";
+  gameStatus?: "menu" | "playing" | "paused" | "gameOver" | "shop";
 }
 
 const GameControls = ({
   onMove = () => {},
+  onShootStart = () => {},
   onShoot = () => {},
   onSpecialAbility = () => {},
   onShieldActivate = () => {},
+  onBomb = () => {},
   onChangeBulletType = () => {},
   weaponCooldown = 0,
+  chargeLevel = 0,
+  maxChargeLevel = 5,
   specialAbilityCooldown = 0,
   specialAbilityCharge = 100,
   shieldCooldown = 0,
   shieldActive = false,
+  bombs = 0,
   weaponType = "standard",
   currentBulletType = "standard",
+  unlockedBulletTypes = ["standard", "laser", "plasma", "explosive"],
   isGameActive = true,
   gameStatus = "playing",
 }: GameControlsProps) => {
   const [touchPosition, setTouchPosition] = useState<number>(50);
   const [isShooting, setIsShooting] = useState<boolean>(false);
   const [isSpecialActive, setIsSpecialActive] = useState<boolean>(false);
-  const [specialCooldownTimer, setSpecialCooldownTimer] = useState<
-    number | null
-  >(null);
-  const [shieldCooldownTimer, setShieldCooldownTimer] = useState<number | null>(
-    null,
-  );
   const [touchStartPosition, setTouchStartPosition] = useState<{
     x: number;
     y: number;
@@ -71,56 +79,20 @@ const GameControls = ({
     onMove(touchPosition);
   }, [touchPosition, onMove]);
 
-  // Handle special ability cooldown timer
-  useEffect(() => {
-    if (specialAbilityCooldown > 0 && !specialCooldownTimer) {
-      const timer = window.setInterval(() => {
-        setSpecialCooldownTimer((prev) => {
-          if (prev === null) return null;
-          return prev - 1;
-        });
-      }, 1000);
-      setSpecialCooldownTimer(specialAbilityCooldown);
-
-      return () => clearInterval(timer);
-    } else if (specialAbilityCooldown === 0) {
-      setSpecialCooldownTimer(null);
-    }
-  }, [specialAbilityCooldown]);
-
-  // Handle shield cooldown timer
-  useEffect(() => {
-    if (shieldCooldown > 0 && !shieldCooldownTimer) {
-      const timer = window.setInterval(() => {
-        setShieldCooldownTimer((prev) => {
-          if (prev === null) return null;
-          if (prev <= 1) {
-            clearInterval(timer);
-            return null;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      setShieldCooldownTimer(shieldCooldown);
-
-      return () => clearInterval(timer);
-    } else if (shieldCooldown === 0) {
-      setShieldCooldownTimer(null);
-    }
-  }, [shieldCooldown]);
+  // Locked bullet types are shown dimmed and can't be selected
+  const isLocked = (type: BulletType) => !unlockedBulletTypes.includes(type);
+  const selectBulletType = (type: BulletType) => {
+    if (!isLocked(type)) onChangeBulletType(type);
+  };
 
-  // Charge shot mechanics
+  // Charge shot mechanics; the charge level itself comes from the game
   const [isCharging, setIsCharging] = useState(false);
-  const [chargeLevel, setChargeLevel] = useState(0);
-  const [chargeStartTime, setChargeStartTime] = useState<number | null>(null);
-  const maxChargeLevel = 5;
 
   // Handle shooting animation and charge mechanics
   const handleShootStart = () => {
     if (weaponCooldown === 0 && isGameActive && gameStatus === "playing") {
       setIsCharging(true);
-      setChargeStartTime(Date.now());
-      setChargeLevel(0);
+      onShootStart();
     }
   };
 
@@ -130,34 +102,14 @@ const GameControls = ({
       onShoot(chargeLevel); // Pass charge level to the shoot handler
       setTimeout(() => setIsShooting(false), 200);
       setIsCharging(false);
-      setChargeStartTime(null);
-      setChargeLevel(0);
     }
   };
 
-  // Update charge level while button is held
-  useEffect(() => {
-    if (!isCharging || !chargeStartTime) return;
-
-    const chargeInterval = setInterval(() => {
-      if (chargeStartTime) {
-        const chargeTime = Date.now() - chargeStartTime;
-        const newChargeLevel = Math.min(
-          Math.floor(chargeTime / 300),
-          maxChargeLevel,
-        );
-        setChargeLevel(newChargeLevel);
-      }
-    }, 100);
-
-    return () => clearInterval(chargeInterval);
-  }, [isCharging, chargeStartTime]);
-
   // Handle special ability
   const handleSpecialAbility = () => {
     if (
       specialAbilityCooldown === 0 &&
-      specialAbilityCharge >= 25 &&
+      specialAbilityCharge >= SPECIAL_COST &&
       isGameActive &&
       gameStatus === "playing"
     ) {
@@ -179,7 +131,7 @@ const GameControls = ({
             <Badge
               variant="outline"
               className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "standard" ? "bg-primary/20 border-primary" : ""}`}
-              onClick={() => onChangeBulletType("standard")}
+              onClick={() => selectBulletType("standard")}
             >
               <Crosshair size={14} />
               <span>Standard</span>
@@ -187,33 +139,57 @@ const GameControls = ({
 
             <Badge
               variant="outline"
-              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "laser" ? "bg-cyan-500/20 border-cyan-500" : ""}`}
-              onClick={() => onChangeBulletType("laser")}
+              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "laser" ? "bg-cyan-500/20 border-cyan-500" : ""} ${isLocked("laser") ? "opacity-50" : ""}`}
+              onClick={() => selectBulletType("laser")}
             >
-              <Zap size={14} className="text-cyan-400" />
+              {isLocked("laser") ? (
+                <Lock size={14} />
+              ) : (
+                <Zap size={14} className="text-cyan-400" />
+              )}
               <span>Laser</span>
             </Badge>
 
             <Badge
               variant="outline"
-              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "plasma" ? "bg-green-500/20 border-green-500" : ""}`}
-              onClick={() => onChangeBulletType("plasma")}
+              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "plasma" ? "bg-green-500/20 border-green-500" : ""} ${isLocked("plasma") ? "opacity-50" : ""}`}
+              onClick={() => selectBulletType("plasma")}
             >
-              <Flame size={14} className="text-green-400" />
+              {isLocked("plasma") ? (
+                <Lock size={14} />
+              ) : (
+                <Flame size={14} className="text-green-400" />
+              )}
               <span>Plasma</span>
             </Badge>
 
             <Badge
               variant="outline"
-              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "explosive" ? "bg-orange-500/20 border-orange-500" : ""}`}
-              onClick={() => onChangeBulletType("explosive")}
+              className={`flex items-center gap-1 px-3 py-1.5 ${currentBulletType === "explosive" ? "bg-orange-500/20 border-orange-500" : ""} ${isLocked("explosive") ? "opacity-50" : ""}`}
+              onClick={() => selectBulletType("explosive")}
             >
-              <Target size={14} className="text-orange-400" />
+              {isLocked("explosive") ? (
+                <Lock size={14} />
+              ) : (
+                <Target size={14} className="text-orange-400" />
+              )}
               <span>Explosive</span>
             </Badge>
           </div>
 
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={onBomb}
+              disabled={
+                bombs === 0 || !isGameActive || gameStatus !== "playing"
+              }
+            >
+              <Bomb size={14} />
+              <span className="tabular-nums">{bombs}</span>
+            </Button>
             <Progress value={specialAbilityCharge} className="w-20 h-2" />
             <span className="text-xs text-muted-foreground">
               {specialAbilityCharge}%
@@ -291,19 +267,19 @@ const GameControls = ({
             <Button
               variant="outline"
               size="lg"
-              className={`w-full h-16 rounded-xl ${specialAbilityCooldown > 0 || specialAbilityCharge < 25 ? "opacity-50" : ""}`}
+              className={`w-full h-16 rounded-xl ${specialAbilityCooldown > 0 || specialAbilityCharge < SPECIAL_COST ? "opacity-50" : ""}`}
               onClick={handleSpecialAbility}
               disabled={
                 specialAbilityCooldown > 0 ||
-                specialAbilityCharge < 25 ||
+                specialAbilityCharge < SPECIAL_COST ||
                 !isGameActive
               }
             >
-              {specialAbilityCooldown > 0 || specialCooldownTimer ? (
+              {specialAbilityCooldown > 0 ? (
                 <div className="flex flex-col items-center">
                   <RotateCcw size={20} className="animate-spin" />
                   <span className="text-xs mt-1">
-                    {specialCooldownTimer || specialAbilityCooldown}s
+                    {specialAbilityCooldown}s
                   </span>
                 </div>
               ) : (
@@ -375,12 +351,10 @@ const GameControls = ({
                 shieldCooldown > 0 || !isGameActive || gameStatus !== "playing"
               }
             >
-              {shieldCooldown > 0 || shieldCooldownTimer ? (
+              {shieldCooldown > 0 ? (
                 <div className="flex flex-col items-center">
                   <RotateCcw size={20} className="animate-spin" />
-                  <span className="text-xs mt-1">
-                    {shieldCooldownTimer || shieldCooldown}s
-                  </span>
+                  <span className="text-xs mt-1">{shieldCooldown}s</span>
                 </div>
               ) : (
                 <div className="flex flex-col items-center">
@@ -1,9 +1,23 @@
 import React from "react";
 import { motion } from "framer-motion";
-import { Heart, Trophy, Zap, Shield, Timer } from "lucide-react";
+import {
+  Heart,
+  Trophy,
+  Zap,
+  Shield,
+  Timer,
+  Skull,
+  Layers,
+  Magnet,
+  Hourglass,
+  Orbit,
+  ChevronsUp,
+} from "lucide-react";
 import { Badge } from "./ui/badge";
 import { Progress } from "./ui/progress";
 import { Card } from "./ui/card";
+import { BossStatus } from "../game/bosses";
+import { ActivePowerUp } from "../game/powerUps";
 
 interface GameHUDProps {
   score?: number;
@@ -11,29 +25,40 @@ interface GameHUDProps {
   health?: number;
   maxHealth?: number;
   stage?: number;
+  stageName?: string;
   combo?: number;
   comboMultiplier?: number;
-  activePowerUps?: Array<{
-    id: string;
-    name: string;
-    icon: string;
-    duration: number;
-    timeRemaining: number;
-  }>;
-  timeRemaining?: number;
+  comboLeft?: number; // share of the combo window left, 0-1
+  activePowerUps?: ActivePowerUp[];
+  timeRemaining?: number; // seconds left on a survival stage, 0 if untimed
+  boss?: BossStatus | null;
   onPause?: () => void;
 }
 
+// Power-up icon names and how they're drawn
+const POWER_UP_ICONS: Record<string, React.ReactNode> = {
+  shield: <Shield className="h-3 w-3 text-blue-500" />,
+  zap: <Zap className="h-3 w-3 text-yellow-500" />,
+  layers: <Layers className="h-3 w-3 text-purple-500" />,
+  magnet: <Magnet className="h-3 w-3 text-pink-500" />,
+  hourglass: <Hourglass className="h-3 w-3 text-indigo-500" />,
+  orbit: <Orbit className="h-3 w-3 text-emerald-500" />,
+  chevronsUp: <ChevronsUp className="h-3 w-3 text-orange-500" />,
+};
+
 const GameHUD = ({
   score = 0,
   highScore = 0,
   health = 100,
   maxHealth = 100,
   stage = 1,
+  stageName,
   combo = 0,
   comboMultiplier = 1,
+  comboLeft = 0,
   activePowerUps = [],
-  timeRemaining = 60,
+  timeRemaining = 0,
+  boss = null,
 }: GameHUDProps) => {
   // Calculate health percentage
   const healthPercentage = (health / maxHealth) * 100;
@@ -75,6 +100,9 @@ const GameHUD = ({
           <div className="flex flex-col items-center">
             <Badge variant="outline" className="mb-1">
               Stage {stage}
+              {stageName && stageName !== `Stage ${stage}` && (
+                <span className="ml-1 text-muted-foreground">{stageName}</span>
+              )}
             </Badge>
             {combo > 0 && (
               <motion.div
@@ -88,6 +116,10 @@ const GameHUD = ({
                   {combo}x{" "}
                   <span className="text-purple-500">{comboMultiplier}x</span>
                 </span>
+                <Progress
+                  value={comboLeft * 100}
+                  className="h-1 w-10 [&>div]:bg-purple-500"
+                />
               </motion.div>
             )}
           </div>
@@ -102,6 +134,29 @@ const GameHUD = ({
           </div>
         </div>
 
+        {/* Boss health bar */}
+        {boss && (
+          <motion.div
+            className="flex flex-col items-center gap-1 mt-2"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-red-500">
+              <Skull className="h-3 w-3" />
+              {boss.state === "intro" ? `Warning: ${boss.name}` : boss.name}
+              {boss.state === "fighting" && boss.phaseCount > 1 && (
+                <span className="text-muted-foreground">
+                  Phase {boss.phase}/{boss.phaseCount}
+                </span>
+              )}
+            </div>
+            <Progress
+              value={(boss.health / boss.maxHealth) * 100}
+              className="h-2 w-full max-w-md bg-red-950 [&>div]:bg-red-500"
+            />
+          </motion.div>
+        )}
+
         {/* Power-ups section */}
         {activePowerUps.length > 0 && (
           <div className="flex justify-center gap-2 mt-2">
@@ -110,13 +165,11 @@ const GameHUD = ({
                 key={powerUp.id}
                 className="p-1 flex items-center gap-1 bg-primary/10 border-primary/20"
               >
-                {powerUp.icon === "shield" && (
-                  <Shield className="h-3 w-3 text-blue-500" />
-                )}
-                {powerUp.icon === "zap" && (
-                  <Zap className="h-3 w-3 text-yellow-500" />
-                )}
-                <div className="text-xs">{powerUp.name}</div>
+                {POWER_UP_ICONS[powerUp.icon]}
+                <div className="text-xs">
+                  {powerUp.name}
+                  {powerUp.stacks > 1 && ` ×${powerUp.stacks}`}
+                </div>
                 <Progress
                   value={(powerUp.timeRemaining / powerUp.duration) * 100}
                   className="h-1 w-8"
@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Trophy } from "lucide-react";
+import OnlineLeaderboard from "./OnlineLeaderboard";
+import ScoreTable from "./ScoreTable";
+import { Button } from "./ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { loadHighScores } from "../lib/highScores";
+
+// Best runs on this device and online
+const HighScores: React.FC = () => {
+  const [scores] = useState(loadHighScores);
+
+  return (
+    <div className="flex flex-col w-full min-h-screen bg-gray-900 text-white">
+      <div className="flex items-center justify-between p-2 border-b border-gray-700">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+        <h1 className="flex items-center gap-2 text-lg font-bold">
+          <Trophy className="h-5 w-5 text-yellow-500" />
+          High Scores
+        </h1>
+        <div className="w-16" />
+      </div>
+
+      <div className="container mx-auto p-4">
+        <Tabs defaultValue="local">
+          <TabsList className="mb-4">
+            <TabsTrigger value="local">This device</TabsTrigger>
+            <TabsTrigger value="online">Online</TabsTrigger>
+          </TabsList>
+          <TabsContent value="local">
+            {scores.length === 0 ? (
+              <p className="text-center text-gray-400">
+                No high scores yet. Go set one!
+              </p>
+            ) : (
+              <ScoreTable
+                entries={scores.map((entry, index) => ({
+                  ...entry,
+                  rank: index + 1,
+                }))}
+              />
+            )}
+          </TabsContent>
+          <TabsContent value="online">
+            <OnlineLeaderboard />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default HighScores;
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "./ui/button";
+import { INITIALS_LENGTH } from "../lib/highScores";
+
+interface InitialsEntryProps {
+  onSubmit: (initials: string) => void;
+  title?: string;
+}
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// Step a letter forwards or backwards through the alphabet, wrapping around
+const shiftLetter = (letter: string, direction: 1 | -1) =>
+  LETTERS[
+    (LETTERS.indexOf(letter) + direction + LETTERS.length) % LETTERS.length
+  ];
+
+// Arcade-style initials picker: type letters, or use the arrows to roll
+// each slot through the alphabet and move between slots
+const InitialsEntry: React.FC<InitialsEntryProps> = ({
+  onSubmit,
+  title = "New high score! Enter your initials",
+}) => {
+  const [letters, setLetters] = useState(() =>
+    Array(INITIALS_LENGTH).fill("A"),
+  );
+  const [slot, setSlot] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Take keyboard focus as soon as the game over screen appears
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  const setLetter = (index: number, letter: string) => {
+    setLetters((prev) => prev.map((l, i) => (i === index ? letter : l)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Leave keys meant for the buttons inside alone
+    if (e.target !== containerRef.current) return;
+
+    const key = e.key.toUpperCase();
+    if (key.length === 1 && LETTERS.includes(key)) {
+      setLetter(slot, key);
+      setSlot((prev) => Math.min(prev + 1, INITIALS_LENGTH - 1));
+    } else if (e.key === "ArrowUp") {
+      setLetter(slot, shiftLetter(letters[slot], 1));
+    } else if (e.key === "ArrowDown") {
+      setLetter(slot, shiftLetter(letters[slot], -1));
+    } else if (e.key === "ArrowLeft" || e.key === "Backspace") {
+      setSlot((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "ArrowRight") {
+      setSlot((prev) => Math.min(prev + 1, INITIALS_LENGTH - 1));
+    } else if (e.key === "Enter") {
+      onSubmit(letters.join(""));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="flex flex-col items-center gap-4 mb-8 outline-none"
+    >
+      <p className="text-lg text-yellow-400 font-bold">{title}</p>
+      <div className="flex gap-3">
+        {letters.map((letter, index) => (
+          <div key={index} className="flex flex-col items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white"
+              aria-label={`Next letter for slot ${index + 1}`}
+              onClick={() => {
+                setSlot(index);
+                setLetter(index, shiftLetter(letter, 1));
+              }}
+            >
+              <ChevronUp className="h-5 w-5" />
+            </Button>
+            <span
+              className={`w-12 text-center text-4xl font-mono font-bold text-white border-b-4 ${
+                index === slot ? "border-yellow-400" : "border-gray-600"
+              }`}
+              onClick={() => setSlot(index)}
+            >
+              {letter}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white"
+              aria-label={`Previous letter for slot ${index + 1}`}
+              onClick={() => {
+                setSlot(index);
+                setLetter(index, shiftLetter(letter, -1));
+              }}
+            >
+              <ChevronDown className="h-5 w-5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button onClick={() => onSubmit(letters.join(""))}>Save score</Button>
+    </div>
+  );
+};
+
+export default InitialsEntry;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { Keyboard } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import {
+  ACTION_LABELS,
+  DEFAULT_KEY_BINDINGS,
+  formatKey,
+  GameAction,
+  KeyBindings,
+  rebindKey,
+} from "../lib/keyBindings";
+
+interface KeyBindingsDialogProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+// Primary and alternate key for each action
+const SLOTS = [0, 1];
+
+// Controls screen where each action can be bound to up to two keys
+const KeyBindingsDialog: React.FC<KeyBindingsDialogProps> = ({
+  bindings,
+  onChange,
+}) => {
+  const [listening, setListening] = useState<{
+    action: GameAction;
+    slot: number;
+  } | null>(null);
+
+  // Capture the next key press for the binding being changed
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Keep the key from reaching the dialog or the game
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      onChange(rebindKey(bindings, listening.action, e.code, listening.slot));
+      setListening(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, { capture: true });
+    };
+  }, [listening, bindings]);
+
+  return (
+    <Dialog onOpenChange={() => setListening(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="text-black">
+          <Keyboard className="h-4 w-4 mr-2" />
+          Controls
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard controls</DialogTitle>
+          <DialogDescription>
+            Click a key, then press the key you want to use instead.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2">
+          {(Object.keys(ACTION_LABELS) as GameAction[]).map((action) => (
+            <div key={action} className="flex items-center justify-between">
+              <span className="text-sm">{ACTION_LABELS[action]}</span>
+              <div className="flex gap-2">
+                {SLOTS.map((slot) => {
+                  const isListening =
+                    listening?.action === action && listening.slot === slot;
+                  const key = bindings[action][slot];
+
+                  return (
+                    <Button
+                      key={slot}
+                      variant={isListening ? "default" : "outline"}
+                      size="sm"
+                      className="w-24"
+                      onClick={() => setListening({ action, slot })}
+                    >
+                      {isListening ? "Press a key" : key ? formatKey(key) : "—"}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setListening(null);
+              onChange(DEFAULT_KEY_BINDINGS);
+            }}
+          >
+            Reset to defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyBindingsDialog;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import ScoreTable from "./ScoreTable";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "./ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import {
+  getLeaderboard,
+  LeaderboardBoard,
+  LeaderboardPage,
+} from "../lib/leaderboard";
+
+type BoardType = LeaderboardBoard["type"];
+
+const STAGES = Array.from({ length: 10 }, (_, index) => index + 1);
+// How many page links to show around the current page
+const PAGE_LINK_SPAN = 2;
+
+// Global, weekly and per-stage boards from the online leaderboard
+const OnlineLeaderboard: React.FC = () => {
+  const [boardType, setBoardType] = useState<BoardType>("global");
+  const [stage, setStage] = useState(1);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const board: LeaderboardBoard =
+      boardType === "stage" ? { type: "stage", stage } : { type: boardType };
+    let cancelled = false;
+
+    getLeaderboard()
+      .getScores(board, page)
+      .then((scores) => {
+        if (cancelled) return;
+        setResult(scores);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          err instanceof Error ? err.message : "Could not load leaderboard",
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [boardType, stage, page]);
+
+  // Switching boards starts again from the first page
+  const selectBoard = (type: BoardType) => {
+    setBoardType(type);
+    setPage(1);
+  };
+
+  const pageCount = result?.pageCount ?? 1;
+  const firstLink = Math.max(1, page - PAGE_LINK_SPAN);
+  const lastLink = Math.min(pageCount, page + PAGE_LINK_SPAN);
+  const pageLinks = Array.from(
+    { length: lastLink - firstLink + 1 },
+    (_, index) => firstLink + index,
+  );
+
+  // Links without a destination; the page is kept in state
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs
+          value={boardType}
+          onValueChange={(value) => selectBoard(value as BoardType)}
+        >
+          <TabsList>
+            <TabsTrigger value="global">All time</TabsTrigger>
+            <TabsTrigger value="weekly">This week</TabsTrigger>
+            <TabsTrigger value="stage">By stage</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {boardType === "stage" && (
+          <Select
+            value={stage.toString()}
+            onValueChange={(value) => {
+              setStage(Number(value));
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-32 text-black">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STAGES.map((value) => (
+                <SelectItem key={value} value={value.toString()}>
+                  Stage {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-center text-red-400">{error}</p>
+      ) : !result ? (
+        <p className="text-center text-gray-400">Loading…</p>
+      ) : result.total === 0 ? (
+        <p className="text-center text-gray-400">
+          No scores on this board yet.
+        </p>
+      ) : (
+        <ScoreTable entries={result.entries} />
+      )}
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goTo(page - 1)} />
+            </PaginationItem>
+            {pageLinks.map((link) => (
+              <PaginationItem key={link}>
+                <PaginationLink
+                  href="#"
+                  isActive={link === page}
+                  onClick={goTo(link)}
+                >
+                  {link}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goTo(page + 1)} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default OnlineLeaderboard;
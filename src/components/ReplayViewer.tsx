@@ -0,0 +1,195 @@
+import React, { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Download, Pause, Play, Upload } from "lucide-react";
+import GameCanvas from "./GameCanvas";
+import { Button } from "./ui/button";
+import { Slider } from "./ui/slider";
+import { Replay } from "../game/replay";
+import { FIXED_TIMESTEP } from "../game/loop";
+import {
+  downloadReplay,
+  loadLastReplay,
+  readReplayFile,
+} from "../lib/replayStorage";
+import { loadSettings } from "../lib/settings";
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+// Format a tick count as m:ss of game time
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor((ticks * FIXED_TIMESTEP) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+const ReplayViewer: React.FC = () => {
+  const [replay, setReplay] = useState<Replay | null>(() => loadLastReplay());
+  const [isPaused, setIsPaused] = useState(true);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [seekTo, setSeekTo] = useState<{ tick: number }>({ tick: 0 });
+  const [currentTick, setCurrentTick] = useState(0);
+  const [score, setScore] = useState(0);
+  const [hits, setHits] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [settings] = useState(loadSettings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasEnded = replay !== null && currentTick >= replay.length;
+
+  // Jump to a tick; the canvas re-simulates from the start and replays events
+  const seek = (tick: number) => {
+    setHits(0);
+    setSeekTo({ tick });
+  };
+
+  // Toggle playback, restarting if the replay already finished
+  const togglePlayback = () => {
+    if (isPaused && hasEnded) {
+      seek(0);
+    }
+    setIsPaused((prev) => !prev);
+  };
+
+  // Load a replay file picked by the player
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setReplay(await readReplayFile(file));
+      setError(null);
+      setIsPaused(true);
+      seek(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read replay");
+    }
+  };
+
+  // Stop at the end of the recording
+  const handleTick = (tick: number) => {
+    setCurrentTick(tick);
+    if (replay && tick >= replay.length) {
+      setIsPaused(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between p-2 border-b border-gray-700">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+        <div className="text-sm">
+          Score <span className="font-bold">{score.toLocaleString()}</span>
+          <span className="ml-4">
+            Hits taken <span className="font-bold">{hits}</span>
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-black"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-black"
+            disabled={!replay}
+            onClick={() => replay && downloadReplay(replay)}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-2 text-center text-sm text-red-400">{error}</div>
+      )}
+
+      {/* Playfield, kept at the size the run was recorded at */}
+      <div className="flex-1 flex items-center justify-center overflow-auto">
+        {replay ? (
+          <div style={{ width: replay.width, height: replay.height }}>
+            <GameCanvas
+              replay={replay}
+              seekTo={seekTo}
+              playbackSpeed={playbackSpeed}
+              isPaused={isPaused}
+              gameStatus="playing"
+              onTick={handleTick}
+              renderer={settings.renderer}
+              debugOverlay={settings.debugOverlay}
+              onScoreChange={(status) => setScore(status.score)}
+              onEnemyReachedBottom={() => setHits((prev) => prev + 1)}
+            />
+          </div>
+        ) : (
+          <p className="text-gray-400">
+            No replay yet. Finish a game or import a replay file.
+          </p>
+        )}
+      </div>
+
+      {/* Playback controls */}
+      {replay && (
+        <div className="flex items-center gap-4 p-4 border-t border-gray-700">
+          <Button
+            variant="outline"
+            size="icon"
+            className="text-black"
+            onClick={togglePlayback}
+          >
+            {isPaused ? (
+              <Play className="h-4 w-4" />
+            ) : (
+              <Pause className="h-4 w-4" />
+            )}
+          </Button>
+          <span className="text-xs tabular-nums">
+            {formatTicks(currentTick)} / {formatTicks(replay.length)}
+          </span>
+          <Slider
+            value={[currentTick]}
+            min={0}
+            max={replay.length}
+            step={1}
+            onValueChange={(value) => seek(value[0])}
+            className="flex-1"
+          />
+          <div className="flex gap-1">
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <Button
+                key={speed}
+                variant={speed === playbackSpeed ? "default" : "outline"}
+                size="sm"
+                className={speed === playbackSpeed ? "" : "text-black"}
+                onClick={() => setPlaybackSpeed(speed)}
+              >
+                {speed}x
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
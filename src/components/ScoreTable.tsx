@@ -0,0 +1,60 @@
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { LeaderboardEntry } from "../lib/leaderboard";
+
+interface ScoreTableProps {
+  entries: LeaderboardEntry[];
+}
+
+// Format milliseconds as m:ss
+const formatDuration = (duration: number) => {
+  const seconds = Math.floor(duration / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+// Ranked list of runs, used by both the local and online boards
+const ScoreTable: React.FC<ScoreTableProps> = ({ entries }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>#</TableHead>
+        <TableHead>Name</TableHead>
+        <TableHead className="text-right">Score</TableHead>
+        <TableHead className="text-right">Stage</TableHead>
+        <TableHead className="text-right">Max combo</TableHead>
+        <TableHead className="text-right">Time</TableHead>
+        <TableHead>Weapon</TableHead>
+        <TableHead>Date</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {entries.map((entry) => (
+        <TableRow key={entry.id}>
+          <TableCell>{entry.rank}</TableCell>
+          <TableCell className="font-mono font-bold">
+            {entry.initials}
+          </TableCell>
+          <TableCell className="text-right tabular-nums">
+            {entry.score.toLocaleString()}
+          </TableCell>
+          <TableCell className="text-right">{entry.stage}</TableCell>
+          <TableCell className="text-right">{entry.maxCombo}</TableCell>
+          <TableCell className="text-right tabular-nums">
+            {formatDuration(entry.duration)}
+          </TableCell>
+          <TableCell className="capitalize">{entry.bulletType}</TableCell>
+          <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+export default ScoreTable;
@@ -0,0 +1,80 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableRow } from "./ui/table";
+import { getStageTotal } from "../game/scoring";
+import { StageScore } from "../game/types";
+
+interface StageBreakdownProps {
+  stage: number;
+  breakdown: StageScore;
+  onContinue: () => void;
+}
+
+// Where a cleared stage's points came from, shown before the shop
+const StageBreakdown: React.FC<StageBreakdownProps> = ({
+  stage,
+  breakdown,
+  onContinue,
+}) => {
+  // Bonuses that weren't earned are left out
+  const rows: [string, number][] = [
+    [`${breakdown.kills} destroyed`, breakdown.points],
+    ["Combo multiplier", breakdown.combo],
+    ["Multi-kills", breakdown.multiKill],
+    ["Charged kills", breakdown.charged],
+    ["Close calls", breakdown.closeCall],
+    ["No damage", breakdown.noDamage],
+  ];
+
+  return (
+    <motion.div
+      data-gamepad-menu
+      className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-80 z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-center text-2xl">
+            Stage {stage} cleared
+          </CardTitle>
+          <p className="text-center text-sm text-muted-foreground">
+            Best combo {breakdown.maxCombo} · {breakdown.hitsTaken} hits taken
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <Table>
+            <TableBody>
+              {rows
+                .filter(([, points], index) => index === 0 || points > 0)
+                .map(([label, points]) => (
+                  <TableRow key={label}>
+                    <TableCell>{label}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      +{points.toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-bold">Stage total</TableCell>
+                <TableCell className="text-right font-bold tabular-nums">
+                  {getStageTotal(breakdown).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+          <Button size="lg" onClick={onContinue}>
+            Continue to the shop
+          </Button>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default StageBreakdown;
@@ -0,0 +1,445 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  Copy,
+  Download,
+  Pause,
+  Play,
+  Plus,
+  RotateCcw,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import FormationPreview from "./FormationPreview";
+import GameCanvas from "./GameCanvas";
+import StageInspector from "./StageInspector";
+import StageTimeline from "./StageTimeline";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "./ui/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Textarea } from "./ui/textarea";
+import { createStageScript } from "../game/stageEditor";
+import {
+  parseStageScript,
+  parseStageScripts,
+  STAGE_SCRIPTS,
+  StageScript,
+  WaveStep,
+} from "../game/stageScripts";
+import {
+  decodeStageFile,
+  downloadStageFile,
+  encodeStageFile,
+  readStageFile,
+} from "../lib/stageFiles";
+import { loadSettings } from "../lib/settings";
+
+type PlayStatus = "menu" | "playing" | "paused" | "gameOver";
+
+// Run a parser and return its complaint, or null if it's happy
+const findProblem = (check: () => unknown) => {
+  try {
+    check();
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid stage";
+  }
+};
+
+// Authoring screen for stage scripts: a timeline of steps, a preview of the
+// selected wave's formation and paths, and a play-test of the whole stage
+const StageEditor: React.FC = () => {
+  const [scripts, setScripts] = useState<StageScript[]>(STAGE_SCRIPTS);
+  const [current, setCurrent] = useState(0);
+  const [selected, setSelected] = useState(0);
+  const [playStatus, setPlayStatus] = useState<PlayStatus>("menu");
+  const [playRun, setPlayRun] = useState(0);
+  const [score, setScore] = useState(0);
+  const [hits, setHits] = useState(0);
+  const [cleared, setCleared] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [settings] = useState(loadSettings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const script = scripts[current];
+  const selectedStep = Math.min(selected, script.steps.length - 1);
+  const step = script.steps[selectedStep];
+  const problem = useMemo(
+    () => findProblem(() => parseStageScript(script)),
+    [script],
+  );
+  const fileProblem = useMemo(
+    () => findProblem(() => parseStageScripts(scripts)),
+    [scripts],
+  );
+
+  const updateScript = (next: StageScript) =>
+    setScripts((prev) =>
+      prev.map((existing, index) => (index === current ? next : existing)),
+    );
+
+  // Edit another stage, stopping any play-test of this one
+  const openStage = (index: number) => {
+    setCurrent(index);
+    setSelected(0);
+    setPlayStatus("menu");
+  };
+
+  const addStage = () => {
+    setScripts((prev) => [
+      ...prev,
+      createStageScript(`stage-${prev.length + 1}`),
+    ]);
+    openStage(scripts.length);
+  };
+
+  const removeStage = () => {
+    setScripts((prev) => prev.filter((_, index) => index !== current));
+    openStage(Math.max(current - 1, 0));
+  };
+
+  // Play the stage from the start as it is now
+  const startPlayTest = () => {
+    setScore(0);
+    setHits(0);
+    setCleared(false);
+    setPlayRun((prev) => prev + 1);
+    setPlayStatus("playing");
+  };
+
+  const togglePlayTestPause = () =>
+    setPlayStatus((prev) =>
+      prev === "playing" ? "paused" : prev === "paused" ? "playing" : prev,
+    );
+
+  // Replace every stage with the ones in the file or pasted text
+  const importStages = (imported: StageScript[]) => {
+    setScripts(imported);
+    openStage(0);
+    setImportOpen(false);
+    setImportText("");
+    setImportError(null);
+  };
+
+  const handleImportText = () => {
+    try {
+      importStages(decodeStageFile(importText));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Invalid stages");
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      importStages(await readStageFile(file));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Invalid stages");
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 p-2 border-b border-gray-700">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </Link>
+        </Button>
+        <div className="flex items-center gap-2">
+          <Select
+            value={current.toString()}
+            onValueChange={(value) => openStage(Number(value))}
+          >
+            <SelectTrigger className="w-56 bg-white text-black">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {scripts.map((stage, index) => (
+                <SelectItem key={index} value={index.toString()}>
+                  Stage {index + 1}: {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="text-black"
+            title="New stage"
+            onClick={addStage}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="text-black"
+            title="Delete stage"
+            disabled={scripts.length === 1}
+            onClick={removeStage}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Dialog
+            open={importOpen}
+            onOpenChange={(open) => {
+              setImportOpen(open);
+              setImportError(null);
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-black">
+                <Upload className="h-4 w-4 mr-1" />
+                Import
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Import stages</DialogTitle>
+                <DialogDescription>
+                  Pick a stage file or paste its contents. It replaces every
+                  stage in the editor.
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                className="h-64 font-mono text-xs"
+                placeholder='[{ "id": "first-contact", ... }]'
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+              />
+              {importError && (
+                <p className="max-h-32 overflow-auto text-sm text-red-500">
+                  {importError}
+                </p>
+              )}
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Choose file
+                </Button>
+                <Button disabled={!importText} onClick={handleImportText}>
+                  Import
+                </Button>
+              </DialogFooter>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-black">
+                <Download className="h-4 w-4 mr-1" />
+                Export
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Export stages</DialogTitle>
+                <DialogDescription>
+                  Every stage, ready to replace src/game/stages.json.
+                </DialogDescription>
+              </DialogHeader>
+              {fileProblem ? (
+                <p className="max-h-64 overflow-auto text-sm text-red-500">
+                  {fileProblem}
+                </p>
+              ) : (
+                <Textarea
+                  readOnly
+                  className="h-64 font-mono text-xs"
+                  value={encodeStageFile(scripts)}
+                />
+              )}
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  disabled={!!fileProblem}
+                  onClick={() =>
+                    navigator.clipboard.writeText(encodeStageFile(scripts))
+                  }
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  disabled={!!fileProblem}
+                  onClick={() => downloadStageFile(scripts)}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="flex-1">
+        <ResizablePanel defaultSize={30} minSize={20}>
+          <StageTimeline
+            script={script}
+            selected={selectedStep}
+            onSelect={setSelected}
+            onChange={updateScript}
+          />
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+
+        <ResizablePanel defaultSize={45} minSize={25}>
+          <Tabs defaultValue="preview" className="flex h-full flex-col p-3">
+            <TabsList className="mb-3 self-start">
+              <TabsTrigger value="preview">Formation</TabsTrigger>
+              <TabsTrigger value="play">Play-test</TabsTrigger>
+            </TabsList>
+            <TabsContent value="preview" className="mt-0 flex-1 min-h-0">
+              {step.type === "wave" ? (
+                <FormationPreview
+                  wave={step}
+                  onChange={(wave: WaveStep) => {
+                    const steps = [...script.steps];
+                    steps[selectedStep] = wave;
+                    updateScript({ ...script, steps });
+                  }}
+                />
+              ) : (
+                <p className="text-center text-gray-400">
+                  Select a wave to see its formation and flight paths.
+                </p>
+              )}
+            </TabsContent>
+            <TabsContent
+              value="play"
+              className="mt-0 flex flex-1 min-h-0 flex-col gap-2"
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-black"
+                  disabled={!!problem}
+                  onClick={startPlayTest}
+                >
+                  {playStatus === "menu" ? (
+                    <Play className="h-4 w-4 mr-1" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                  )}
+                  {playStatus === "menu" ? "Play" : "Restart"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 text-black"
+                  disabled={playStatus !== "playing" && playStatus !== "paused"}
+                  onClick={togglePlayTestPause}
+                >
+                  {playStatus === "paused" ? (
+                    <Play className="h-4 w-4" />
+                  ) : (
+                    <Pause className="h-4 w-4" />
+                  )}
+                </Button>
+                <span className="ml-auto">
+                  Score <span className="font-bold">{score}</span>
+                </span>
+                <span>
+                  Hits taken <span className="font-bold">{hits}</span>
+                </span>
+                {playStatus === "gameOver" &&
+                  (cleared ? (
+                    <span className="font-bold text-green-400">
+                      Stage cleared
+                    </span>
+                  ) : (
+                    <span className="font-bold text-red-400">Destroyed</span>
+                  ))}
+              </div>
+              <div className="relative flex-1 min-h-0">
+                {playStatus === "menu" ? (
+                  <p className="text-center text-gray-400">
+                    Play the stage as it is now. Move with the mouse or keys and
+                    hold to fire.
+                  </p>
+                ) : (
+                  <GameCanvas
+                    key={playRun}
+                    script={script}
+                    stage={current + 1}
+                    gameStatus={playStatus}
+                    isPaused={playStatus === "paused"}
+                    onPause={togglePlayTestPause}
+                    onScoreChange={(status) => setScore(status.score)}
+                    onEnemyReachedBottom={() => setHits((prev) => prev + 1)}
+                    onStageCleared={() => {
+                      setCleared(true);
+                      setPlayStatus("gameOver");
+                    }}
+                    onGameOver={() => setPlayStatus("gameOver")}
+                    renderer={settings.renderer}
+                    debugOverlay={settings.debugOverlay}
+                  />
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+
+        <ResizablePanel defaultSize={25} minSize={20}>
+          <div className="h-full overflow-y-auto">
+            <StageInspector
+              script={script}
+              selected={selectedStep}
+              onChange={updateScript}
+            />
+            {problem && (
+              <p className="mx-3 mb-3 rounded bg-red-950 p-2 text-xs text-red-300 break-words">
+                {problem}
+              </p>
+            )}
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+};
+
+export default StageEditor;
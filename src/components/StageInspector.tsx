@@ -0,0 +1,365 @@
+import React from "react";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { ENEMY_BEHAVIOR_IDS } from "../game/behaviors";
+import { BOSS_DEFINITIONS } from "../game/bossDefinitions";
+import { ENEMY_ARCHETYPES } from "../game/enemyArchetypes";
+import { getStepTimes, setStepStartTime } from "../game/stageEditor";
+import {
+  FORMATIONS,
+  LANE_COUNT,
+  StageScript,
+  StageStep,
+  WinCondition,
+} from "../game/stageScripts";
+import { EnemyBehaviorId } from "../game/types";
+
+const SPAWN_TIME_RANGE = 30000; // milliseconds a wave can be pushed back by
+const DEFAULT_RANDOM_INTERVAL = 1500; // milliseconds, when the pace is first set
+const DEFAULT_SURVIVE_DURATION = 90; // seconds, when switching to survival
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+// A labelled slider showing its current value
+const SliderField: React.FC<SliderFieldProps> = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format = String,
+  onChange,
+}) => (
+  <div className="flex flex-col gap-2">
+    <div className="flex justify-between text-sm">
+      <Label>{label}</Label>
+      <span className="tabular-nums text-gray-400">{format(value)}</span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      onValueChange={(values) => onChange(values[0])}
+    />
+  </div>
+);
+
+interface SelectFieldProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+const SelectField: React.FC<SelectFieldProps> = ({
+  label,
+  value,
+  options,
+  onChange,
+}) => (
+  <div className="flex flex-col gap-2">
+    <Label className="text-sm">{label}</Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-white text-black">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const formatSeconds = (milliseconds: number) =>
+  `${(milliseconds / 1000).toFixed(1)}s`;
+
+interface StageInspectorProps {
+  script: StageScript;
+  selected: number; // Index of the selected step
+  onChange: (script: StageScript) => void;
+}
+
+// Fields for the selected step
+const StepFields: React.FC<StageInspectorProps> = ({
+  script,
+  selected: index,
+  onChange,
+}) => {
+  const step = script.steps[index];
+  if (!step) return null;
+
+  const setStep = (changes: Partial<StageStep>) => {
+    const steps = [...script.steps];
+    steps[index] = { ...step, ...changes } as StageStep;
+    onChange({ ...script, steps });
+  };
+
+  // Waves and bosses can be moved in time; the pause before them absorbs it
+  const renderSpawnTime = () => {
+    const time = getStepTimes(script)[index];
+    const previous = script.steps[index - 1];
+    const earliest =
+      time.start - (previous?.type === "pause" ? previous.duration : 0);
+    return (
+      <SliderField
+        label={time.afterWait ? "Spawn time after the clear" : "Spawn time"}
+        value={time.start}
+        min={earliest}
+        max={earliest + SPAWN_TIME_RANGE}
+        step={250}
+        format={formatSeconds}
+        onChange={(start) => onChange(setStepStartTime(script, index, start))}
+      />
+    );
+  };
+
+  switch (step.type) {
+    case "wave":
+      return (
+        <div className="flex flex-col gap-4">
+          {renderSpawnTime()}
+          <SelectField
+            label="Enemy"
+            value={step.archetype}
+            options={ENEMY_ARCHETYPES.map(({ id, name }) => ({
+              value: id,
+              label: name,
+            }))}
+            onChange={(archetype) => setStep({ archetype })}
+          />
+          <SliderField
+            label="Count"
+            value={step.count}
+            min={1}
+            max={12}
+            step={1}
+            onChange={(count) => setStep({ count })}
+          />
+          <SelectField
+            label="Formation"
+            value={step.formation}
+            options={FORMATIONS.map((formation) => ({
+              value: formation,
+              label: formation,
+            }))}
+            onChange={(formation) =>
+              setStep({ formation: formation as (typeof FORMATIONS)[number] })
+            }
+          />
+          {step.formation !== "scatter" && (
+            <SliderField
+              label="Lane"
+              value={step.lane ?? Math.floor(LANE_COUNT / 2)}
+              min={0}
+              max={LANE_COUNT - 1}
+              step={1}
+              format={(lane) => `${lane + 1} of ${LANE_COUNT}`}
+              onChange={(lane) => setStep({ lane })}
+            />
+          )}
+          <SelectField
+            label="Behavior"
+            value={step.behavior ?? "default"}
+            options={[
+              { value: "default", label: "Enemy's own" },
+              ...ENEMY_BEHAVIOR_IDS.map((behavior) => ({
+                value: behavior,
+                label: behavior,
+              })),
+            ]}
+            onChange={(behavior) =>
+              setStep({
+                behavior:
+                  behavior === "default"
+                    ? undefined
+                    : (behavior as EnemyBehaviorId),
+              })
+            }
+          />
+        </div>
+      );
+    case "pause":
+      return (
+        <SliderField
+          label="Duration"
+          value={step.duration}
+          min={250}
+          max={20000}
+          step={250}
+          format={formatSeconds}
+          onChange={(duration) => setStep({ duration })}
+        />
+      );
+    case "random":
+      return (
+        <div className="flex flex-col gap-4">
+          <SliderField
+            label="Duration"
+            value={step.duration}
+            min={1000}
+            max={60000}
+            step={500}
+            format={formatSeconds}
+            onChange={(duration) => setStep({ duration })}
+          />
+          <div className="flex items-center gap-2">
+            <Switch
+              id="stage-pace"
+              checked={step.interval === undefined}
+              onCheckedChange={(checked) =>
+                setStep({
+                  interval: checked ? undefined : DEFAULT_RANDOM_INTERVAL,
+                })
+              }
+            />
+            <Label htmlFor="stage-pace">Spawn at the stage's own pace</Label>
+          </div>
+          {step.interval !== undefined && (
+            <SliderField
+              label="Time between spawns"
+              value={step.interval}
+              min={200}
+              max={5000}
+              step={100}
+              format={formatSeconds}
+              onChange={(interval) => setStep({ interval })}
+            />
+          )}
+        </div>
+      );
+    case "waitForClear":
+      return (
+        <p className="text-sm text-gray-400">
+          Holds the script until every enemy and boss has been destroyed or has
+          left the playfield.
+        </p>
+      );
+    case "boss":
+      return (
+        <div className="flex flex-col gap-4">
+          {renderSpawnTime()}
+          <SelectField
+            label="Boss"
+            value={step.boss}
+            options={BOSS_DEFINITIONS.map(({ id, name }) => ({
+              value: id,
+              label: name,
+            }))}
+            onChange={(boss) => setStep({ boss })}
+          />
+          <SliderField
+            label="Health"
+            value={step.healthScale ?? 1}
+            min={0.5}
+            max={4}
+            step={0.25}
+            format={(scale) => `×${scale}`}
+            onChange={(healthScale) => setStep({ healthScale })}
+          />
+        </div>
+      );
+  }
+};
+
+// Fields for the stage as a whole
+const StageFields: React.FC<StageInspectorProps> = ({ script, onChange }) => {
+  const setWin = (win: WinCondition) => onChange({ ...script, win });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="stage-id" className="text-sm">
+          Id
+        </Label>
+        <Input
+          id="stage-id"
+          className="bg-white text-black"
+          value={script.id}
+          onChange={(e) => onChange({ ...script, id: e.target.value })}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="stage-name" className="text-sm">
+          Name
+        </Label>
+        <Input
+          id="stage-name"
+          className="bg-white text-black"
+          value={script.name}
+          onChange={(e) => onChange({ ...script, name: e.target.value })}
+        />
+      </div>
+      <SelectField
+        label="Won by"
+        value={script.win.type}
+        options={[
+          { value: "survive", label: "Surviving, repeating the steps" },
+          { value: "destroyAll", label: "Destroying everything" },
+        ]}
+        onChange={(type) =>
+          setWin(
+            type === "survive"
+              ? { type, duration: DEFAULT_SURVIVE_DURATION }
+              : { type: "destroyAll" },
+          )
+        }
+      />
+      {script.win.type === "survive" && (
+        <SliderField
+          label="Time to survive"
+          value={script.win.duration}
+          min={10}
+          max={300}
+          step={5}
+          format={(seconds) => `${seconds}s`}
+          onChange={(duration) => setWin({ type: "survive", duration })}
+        />
+      )}
+    </div>
+  );
+};
+
+// Settings for the selected step and for the stage as a whole
+const StageInspector: React.FC<StageInspectorProps> = (props) => (
+  <Tabs defaultValue="step" className="p-3">
+    <TabsList className="mb-4 w-full">
+      <TabsTrigger value="step" className="flex-1">
+        Step
+      </TabsTrigger>
+      <TabsTrigger value="stage" className="flex-1">
+        Stage
+      </TabsTrigger>
+    </TabsList>
+    <TabsContent value="step">
+      <StepFields {...props} />
+    </TabsContent>
+    <TabsContent value="stage">
+      <StageFields {...props} />
+    </TabsContent>
+  </Tabs>
+);
+
+export default StageInspector;
@@ -0,0 +1,229 @@
+import React from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Hourglass,
+  Pause,
+  Plus,
+  Shuffle,
+  Skull,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { ScrollArea } from "./ui/scroll-area";
+import { getBossDefinition } from "../game/bossDefinitions";
+import { getArchetype } from "../game/enemyArchetypes";
+import {
+  createStep,
+  getScriptLength,
+  getStepTimes,
+  StepTime,
+} from "../game/stageEditor";
+import { StageScript, StageStep } from "../game/stageScripts";
+
+interface StageTimelineProps {
+  script: StageScript;
+  selected: number;
+  onSelect: (index: number) => void;
+  onChange: (script: StageScript) => void;
+}
+
+const STEP_ICONS: Record<StageStep["type"], React.ElementType> = {
+  wave: Users,
+  pause: Pause,
+  random: Shuffle,
+  waitForClear: Hourglass,
+  boss: Skull,
+};
+
+const STEP_COLORS: Record<StageStep["type"], string> = {
+  wave: "bg-blue-500",
+  pause: "bg-gray-600",
+  random: "bg-purple-600",
+  waitForClear: "bg-yellow-500",
+  boss: "bg-red-600",
+};
+
+const STEP_LABELS: Record<StageStep["type"], string> = {
+  wave: "Wave",
+  pause: "Pause",
+  random: "Random",
+  waitForClear: "Wait",
+  boss: "Boss",
+};
+
+const formatSeconds = (milliseconds: number) =>
+  `${(milliseconds / 1000).toFixed(1)}s`;
+
+// When a step starts, marked as a minimum once it depends on the player
+const formatStart = (time: StepTime) =>
+  `${time.afterWait ? "≥ " : ""}${formatSeconds(time.start)}`;
+
+// One line describing what a step does
+const describeStep = (step: StageStep) => {
+  switch (step.type) {
+    case "wave":
+      return `${step.count} × ${getArchetype(step.archetype).name}, ${step.formation}${
+        step.behavior ? `, ${step.behavior}` : ""
+      }`;
+    case "pause":
+      return `Pause for ${formatSeconds(step.duration)}`;
+    case "random":
+      return `Random spawns for ${formatSeconds(step.duration)}`;
+    case "waitForClear":
+      return "Wait until everything is destroyed";
+    case "boss":
+      return getBossDefinition(step.boss).name;
+  }
+};
+
+// The stage's steps laid out in time, with controls to add, reorder and
+// remove them
+const StageTimeline: React.FC<StageTimelineProps> = ({
+  script,
+  selected,
+  onSelect,
+  onChange,
+}) => {
+  const times = getStepTimes(script);
+  // Keep instant steps visible on an empty timeline
+  const length = Math.max(getScriptLength(script), 1000);
+
+  const setSteps = (steps: StageStep[]) => onChange({ ...script, steps });
+
+  // Add a step after the selected one and select it
+  const addStep = (type: StageStep["type"]) => {
+    const steps = [...script.steps];
+    steps.splice(selected + 1, 0, createStep(type));
+    setSteps(steps);
+    onSelect(selected + 1);
+  };
+
+  // Swap a step with its neighbour, keeping it selected
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= script.steps.length) return;
+
+    const steps = [...script.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setSteps(steps);
+    onSelect(target);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(script.steps.filter((_, i) => i !== index));
+    onSelect(Math.max(Math.min(selected, script.steps.length - 2), 0));
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-3 p-3">
+      {/* Time strip: timed steps as bars, instant ones as markers */}
+      <div>
+        <div className="relative h-8 rounded bg-gray-800">
+          {script.steps.map((step, index) => {
+            const { start, duration } = times[index];
+            return (
+              <button
+                key={index}
+                title={describeStep(step)}
+                className={`absolute top-1 bottom-1 rounded-sm ${STEP_COLORS[step.type]} ${
+                  index === selected ? "ring-2 ring-white" : "opacity-80"
+                }`}
+                style={{
+                  left: `${(start / length) * 100}%`,
+                  width: duration ? `${(duration / length) * 100}%` : "4px",
+                }}
+                onClick={() => onSelect(index)}
+              />
+            );
+          })}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-gray-400">
+          <span>0s</span>
+          <span>
+            {script.win.type === "survive"
+              ? `${formatSeconds(length)}, repeated for ${script.win.duration}s`
+              : formatSeconds(length)}
+          </span>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <ol className="flex flex-col gap-1">
+          {script.steps.map((step, index) => {
+            const Icon = STEP_ICONS[step.type];
+            return (
+              <li
+                key={index}
+                className={`flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm ${
+                  index === selected ? "bg-gray-700" : "hover:bg-gray-800"
+                }`}
+                onClick={() => onSelect(index)}
+              >
+                <span className="w-14 shrink-0 text-xs tabular-nums text-gray-400">
+                  {formatStart(times[index])}
+                </span>
+                <Icon className="h-4 w-4 shrink-0" />
+                <span className="flex-1 truncate">{describeStep(step)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    moveStep(index, -1);
+                  }}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === script.steps.length - 1}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    moveStep(index, 1);
+                  }}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={script.steps.length === 1}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeStep(index);
+                  }}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      </ScrollArea>
+
+      <div className="flex flex-wrap gap-1">
+        {(Object.keys(STEP_LABELS) as StageStep["type"][]).map((type) => (
+          <Button
+            key={type}
+            variant="outline"
+            size="sm"
+            className="text-black"
+            onClick={() => addStep(type)}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {STEP_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StageTimeline;
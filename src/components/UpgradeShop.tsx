@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { Coins, Lock, Undo2 } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { ScrollArea } from "./ui/scroll-area";
+import { PlayerUpgrades } from "../game/types";
+import {
+  canPurchase,
+  getUpgradeCost,
+  getUpgradeLevel,
+  purchaseUpgrade,
+  Upgrade,
+  UPGRADES,
+} from "../game/upgrades";
+
+interface UpgradeShopProps {
+  stage: number; // The stage just cleared
+  upgrades: PlayerUpgrades;
+  // Called with the upgrade ids bought, in order
+  onContinue: (purchases: string[]) => void;
+}
+
+// How far along an upgrade is, e.g. "Level 2/5"
+const describeLevel = (upgrades: PlayerUpgrades, upgrade: Upgrade) => {
+  const level = getUpgradeLevel(upgrades, upgrade.id);
+  if (upgrade.effect.type === "unlock") return level > 0 ? "Unlocked" : null;
+  return `Level ${level}/${upgrade.costs.length}`;
+};
+
+// Spend credits between stages. Purchases are only previewed here; the
+// game buys them when the next stage starts so they end up in the replay.
+const UpgradeShop: React.FC<UpgradeShopProps> = ({
+  stage,
+  upgrades,
+  onContinue,
+}) => {
+  const [basket, setBasket] = useState<string[]>([]);
+  const preview = basket.reduce(purchaseUpgrade, upgrades);
+
+  return (
+    <motion.div
+      data-gamepad-menu
+      className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black bg-opacity-80 z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <h1 className="text-4xl font-bold text-white">Stage {stage} cleared</h1>
+      <div className="flex items-center gap-2 text-xl text-yellow-400">
+        <Coins className="h-5 w-5" />
+        {preview.credits} credits
+      </div>
+
+      <ScrollArea className="w-full max-w-2xl max-h-[60vh]">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {UPGRADES.map((upgrade) => {
+            const cost = getUpgradeCost(preview, upgrade.id);
+            const level = describeLevel(preview, upgrade);
+            return (
+              <Card key={upgrade.id}>
+                <CardHeader className="p-4 pb-2">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2">
+                      {upgrade.effect.type === "unlock" && !level && (
+                        <Lock className="h-4 w-4" />
+                      )}
+                      {upgrade.name}
+                    </span>
+                    {level && <Badge variant="secondary">{level}</Badge>}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="flex items-center justify-between gap-2 p-4 pt-0">
+                  <p className="text-sm text-muted-foreground">
+                    {upgrade.description}
+                  </p>
+                  <Button
+                    size="sm"
+                    disabled={!canPurchase(preview, upgrade.id)}
+                    onClick={() => setBasket([...basket, upgrade.id])}
+                  >
+                    {cost === null ? "Maxed" : `Buy ${cost}`}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          size="lg"
+          className="text-black"
+          disabled={basket.length === 0}
+          onClick={() => setBasket([])}
+        >
+          <Undo2 className="h-4 w-4 mr-2" />
+          Undo purchases
+        </Button>
+        <Button size="lg" onClick={() => onContinue(basket)}>
+          Next stage
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default UpgradeShop;
@@ -1,135 +1,182 @@
-import React, { useState } from "react";
+import React, { useCallback, useState } from "react";
 import { motion } from "framer-motion";
+import { Gamepad2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import GameCanvas from "./GameCanvas";
 import GameControls from "./GameControls";
 import GameHUD from "./GameHUD";
+import KeyBindingsDialog from "./KeyBindingsDialog";
+import InitialsEntry from "./InitialsEntry";
+import StageBreakdown from "./StageBreakdown";
+import UpgradeShop from "./UpgradeShop";
+import { useGamepadMenuNavigation } from "../hooks/useGamepadMenuNavigation";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { encodeReplay, Replay } from "../game/replay";
+import { ControlState, createCommandBus } from "../game/commands";
+import { BossStatus } from "../game/bosses";
+import { START_SPECIAL_CHARGE } from "../game/abilities";
+import { HealthStatus, PLAYER_HEALTH } from "../game/health";
+import { ActivePowerUp } from "../game/powerUps";
+import { MAX_CHARGE_LEVEL } from "../game/projectiles";
+import { FIXED_TIMESTEP } from "../game/loop";
+import { ScoreStatus } from "../game/scoring";
+import { getStageScript } from "../game/stageScripts";
+import { BulletType, StageScore } from "../game/types";
+import {
+  createUpgrades,
+  getUnlockedBulletTypes,
+  getUpgrade,
+} from "../game/upgrades";
+import {
+  loadUnlockedBulletTypes,
+  saveUnlockedBulletTypes,
+} from "../lib/progression";
+import { saveLastReplay } from "../lib/replayStorage";
+import { GameSettings, loadSettings, saveSettings } from "../lib/settings";
+import {
+  addHighScore,
+  getBestScore,
+  HighScoreEntry,
+  isHighScore,
+  loadHighScores,
+} from "../lib/highScores";
+import { getLeaderboard, getPlayerId, SubmitResult } from "../lib/leaderboard";
+import {
+  KeyBindings,
+  loadKeyBindings,
+  saveKeyBindings,
+} from "../lib/keyBindings";
 
 interface GameState {
   score: number;
   health: number;
+  maxHealth: number;
   stage: number;
   combo: number;
-  activePowerups: string[];
-  gameStatus: "menu" | "playing" | "paused" | "gameOver";
-  specialAbilityCharge?: number;
-  specialAbilityCooldown?: number;
-  shieldCooldown?: number;
-  shieldActive?: boolean;
+  maxCombo: number;
+  comboMultiplier: number;
+  comboLeft: number; // share of the combo window left
+  gameStatus: "menu" | "playing" | "paused" | "gameOver" | "shop";
 }
 
 const Home: React.FC = () => {
   // Game state management
   const [gameState, setGameState] = useState<GameState>({
     score: 0,
-    health: 3,
+    health: PLAYER_HEALTH,
+    maxHealth: PLAYER_HEALTH,
     stage: 1,
     combo: 0,
-    activePowerups: [],
+    maxCombo: 0,
+    comboMultiplier: 1,
+    comboLeft: 0,
     gameStatus: "menu",
-    specialAbilityCharge: 75,
-    specialAbilityCooldown: 0,
-    shieldCooldown: 0,
-    shieldActive: false,
   });
+  const [hasReplay, setHasReplay] = useState(false);
+  const [highScores, setHighScores] =
+    useState<HighScoreEntry[]>(loadHighScores);
+  const [initialsEntered, setInitialsEntered] = useState(false);
+  const [savedRank, setSavedRank] = useState<number | null>(null);
+  const [lastRun, setLastRun] = useState<Replay | null>(null);
+  const [uploadStatus, setUploadStatus] = useState<SubmitResult | null>(null);
+  const [settings, setSettings] = useState<GameSettings>(loadSettings);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings);
+  const [commandBus] = useState(createCommandBus);
+  const [bossStatus, setBossStatus] = useState<BossStatus | null>(null);
+  const [activePowerUps, setActivePowerUps] = useState<ActivePowerUp[]>([]);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+  // The last cleared stage's points, shown before the shop until dismissed
+  const [stageBreakdown, setStageBreakdown] = useState<{
+    stage: number;
+    breakdown: StageScore;
+  } | null>(null);
+  // Bullet types bought in earlier runs, which new runs start with
+  const [unlockedBulletTypes, setUnlockedBulletTypes] = useState<BulletType[]>(
+    loadUnlockedBulletTypes,
+  );
+  const [controlState, setControlState] = useState<ControlState>(() => ({
+    weaponCooldown: 0,
+    chargeLevel: 0,
+    isCharging: false,
+    bulletType: "standard",
+    upgrades: createUpgrades(unlockedBulletTypes),
+    bombs: 0,
+    shieldActive: false,
+    shieldCooldown: 0,
+    specialCooldown: 0,
+    specialCharge: START_SPECIAL_CHARGE,
+  }));
+  const navigate = useNavigate();
+  const gamepadConnected = useGamepadMenuNavigation(
+    gameState.gameStatus !== "playing",
+  );
 
-  // Handle player movement
-  const handleMove = (direction: "left" | "right") => {
-    // This will be implemented to control the turret movement
-    console.log(`Moving ${direction}`);
-  };
+  // Handle player movement from the joystick slider (0-100). Kept stable
+  // because the controls send it whenever the handler changes.
+  const handleMove = useCallback(
+    (position: number) =>
+      commandBus.dispatch({ type: "moveTo", position: position / 100 }),
+    [commandBus],
+  );
 
-  // Handle player shooting
-  const handleShoot = (chargeLevel = 0) => {
-    // This will be implemented to handle the shooting mechanics
-    console.log(`Shooting with charge level: ${chargeLevel}`);
+  // Start charging a shot
+  const handleShootStart = () => {
+    commandBus.dispatch({ type: "fireStart" });
   };
 
-  // Handle special ability (special fire)
-  const handleSpecialAbility = () => {
-    console.log("Special ability activated");
-    // Reduce special ability charge when used
-    setGameState((prev) => ({
-      ...prev,
-      specialAbilityCharge: Math.max(0, (prev.specialAbilityCharge || 75) - 25),
-      specialAbilityCooldown: 5, // 5 second cooldown
-    }));
+  // Fire; the game releases the shot at the charge level it has reached
+  const handleShoot = () => {
+    commandBus.dispatch({ type: "fireRelease" });
+  };
 
-    // Reset cooldown after 5 seconds
-    setTimeout(() => {
-      setGameState((prev) => ({
-        ...prev,
-        specialAbilityCooldown: 0,
-      }));
-    }, 5000);
+  // Switch ammo
+  const handleChangeBulletType = (bulletType: BulletType) => {
+    commandBus.dispatch({ type: "selectBulletType", bulletType });
   };
 
-  // Handle shield activation
-  const handleShieldActivate = () => {
-    console.log("Shield activated");
+  // Show the score and combo the game keeps
+  const handleScoreChange = (status: ScoreStatus) => {
     setGameState((prev) => ({
       ...prev,
-      shieldActive: true,
-      shieldCooldown: 10, // 10 second cooldown
+      score: status.score,
+      combo: status.combo,
+      maxCombo: status.maxCombo,
+      comboMultiplier: status.multiplier,
+      comboLeft: status.comboLeft,
     }));
-
-    // Deactivate shield after 3 seconds
-    setTimeout(() => {
-      setGameState((prev) => ({
-        ...prev,
-        shieldActive: false,
-      }));
-    }, 3000);
-
-    // Reset cooldown after 10 seconds
-    setTimeout(() => {
-      setGameState((prev) => ({
-        ...prev,
-        shieldCooldown: 0,
-      }));
-    }, 10000);
   };
 
-  // Update game score
-  const updateScore = (points: number) => {
+  // Show the health the game keeps
+  const handleHealthChange = (status: HealthStatus) => {
     setGameState((prev) => ({
       ...prev,
-      score: prev.score + points,
-      combo: prev.combo + 1,
+      health: status.health,
+      maxHealth: status.maxHealth,
     }));
   };
 
-  // Handle enemy reaching bottom
-  const handleEnemyReachedBottom = () => {
-    setGameState((prev) => {
-      const newHealth = prev.health - 1;
-      return {
-        ...prev,
-        health: newHealth,
-        gameStatus: newHealth <= 0 ? "gameOver" : prev.gameStatus,
-        combo: 0, // Reset combo when enemy reaches bottom
-      };
-    });
-  };
-
-  // Handle time expired
-  const handleTimeExpired = () => {
-    // When time expires, advance to next stage or end game
-    advanceStage();
+  // The game ends the run when the player runs out of health
+  const handleGameOver = () => {
+    setGameState((prev) => ({ ...prev, gameStatus: "gameOver" }));
   };
 
   // Start a new game
   const startGame = () => {
+    setInitialsEntered(false);
+    setSavedRank(null);
+    setStageBreakdown(null);
+    setUploadStatus(null);
     setGameState({
       score: 0,
-      health: 3,
+      health: PLAYER_HEALTH,
+      maxHealth: PLAYER_HEALTH,
       stage: 1,
       combo: 0,
-      activePowerups: [],
+      maxCombo: 0,
+      comboMultiplier: 1,
+      comboLeft: 0,
       gameStatus: "playing",
-      specialAbilityCharge: 75,
-      specialAbilityCooldown: 0,
-      shieldCooldown: 0,
-      shieldActive: false,
     });
   };
 
@@ -141,51 +188,97 @@ const Home: React.FC = () => {
     }));
   };
 
-  // Collect powerup
-  const collectPowerup = (powerupType: string) => {
+  // Open the shop once a stage is cleared
+  const openShop = () => {
+    setGameState((prev) => ({ ...prev, gameStatus: "shop" }));
+  };
+
+  // Leave the shop for the next stage's script. The game buys the chosen
+  // upgrades on the stage's first tick.
+  const advanceStage = (purchases: string[]) => {
+    purchases.forEach((upgrade) =>
+      commandBus.dispatch({ type: "purchase", upgrade }),
+    );
     setGameState((prev) => ({
       ...prev,
-      activePowerups: [...prev.activePowerups, powerupType],
+      stage: prev.stage + 1,
+      gameStatus: "playing",
     }));
+  };
 
-    // Set duration based on powerup type
-    let duration = 10000; // Default 10 seconds
+  // Keep bullet types the game unlocked for future runs
+  const handleUpgradePurchased = (id: string) => {
+    const { effect } = getUpgrade(id);
+    if (
+      effect.type === "unlock" &&
+      !unlockedBulletTypes.includes(effect.bulletType)
+    ) {
+      const unlocked = [...unlockedBulletTypes, effect.bulletType];
+      saveUnlockedBulletTypes(unlocked);
+      setUnlockedBulletTypes(unlocked);
+    }
+  };
+
+  // Keep the finished run so it can be watched back
+  const handleRunRecorded = (replay: Replay) => {
+    saveLastReplay(replay);
+    setHasReplay(true);
+    setLastRun(replay);
+  };
 
-    if (powerupType === "rapidFire") {
-      duration = 10000; // 10 seconds for rapid fire
-    } else if (powerupType === "shield") {
-      duration = 15000; // 15 seconds for shield
-    } else if (powerupType === "multiShot") {
-      duration = 8000; // 8 seconds for multi shot
+  // Send every finished run to the online leaderboard, and put it on the
+  // local high-score table too if it makes the top ten
+  const saveHighScore = (initials: string) => {
+    const score = {
+      initials,
+      score: gameState.score,
+      stage: gameState.stage,
+      maxCombo: gameState.maxCombo,
+      duration: lastRun ? lastRun.length * FIXED_TIMESTEP : 0,
+      bulletType: controlState.bulletType,
+    };
+    setInitialsEntered(true);
+    if (isHighScore(highScores, score.score)) {
+      const result = addHighScore(highScores, score);
+      setHighScores(result.scores);
+      setSavedRank(result.rank);
     }
 
-    // Power-ups expire after their duration
-    setTimeout(() => {
-      setGameState((prev) => ({
-        ...prev,
-        activePowerups: prev.activePowerups.filter((p) => p !== powerupType),
-      }));
-    }, duration);
+    getLeaderboard()
+      .submitScore({
+        ...score,
+        id: crypto.randomUUID(),
+        playerId: getPlayerId(),
+        replay: lastRun && encodeReplay(lastRun),
+        submittedAt: new Date().toISOString(),
+      })
+      .then(setUploadStatus);
   };
 
-  // Advance to next stage
-  const advanceStage = () => {
-    setGameState((prev) => ({
-      ...prev,
-      stage: prev.stage + 1,
-    }));
+  // Change and persist settings
+  const updateSettings = (changes: Partial<GameSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  };
+
+  // Change and persist keyboard bindings
+  const updateKeyBindings = (bindings: KeyBindings) => {
+    saveKeyBindings(bindings);
+    setKeyBindings(bindings);
   };
 
   // View high scores
   const viewHighScores = () => {
-    // For now, just show an alert with the high score
-    alert(`Current High Score: ${gameState.score}`);
-    // In a real implementation, you would navigate to a high scores screen
+    navigate("/high-scores");
   };
 
   // Render game menu
   const renderMenu = () => (
     <motion.div
+      data-gamepad-menu
       className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-80 z-50"
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
@@ -210,12 +303,46 @@ const Home: React.FC = () => {
       >
         High Scores
       </motion.button>
+      <div className="flex flex-col gap-3 mt-8 text-white">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="dom-renderer"
+            checked={settings.renderer === "dom"}
+            onCheckedChange={(checked) =>
+              updateSettings({ renderer: checked ? "dom" : "canvas" })
+            }
+          />
+          <Label htmlFor="dom-renderer">Compatibility renderer</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="debug-overlay"
+            checked={settings.debugOverlay}
+            disabled={settings.renderer !== "canvas"}
+            onCheckedChange={(checked) =>
+              updateSettings({ debugOverlay: checked })
+            }
+          />
+          <Label htmlFor="debug-overlay">Show hitboxes and FPS</Label>
+        </div>
+        <KeyBindingsDialog
+          bindings={keyBindings}
+          onChange={updateKeyBindings}
+        />
+        {gamepadConnected && (
+          <div className="flex items-center gap-2 text-sm text-green-400">
+            <Gamepad2 className="h-4 w-4" />
+            Controller connected
+          </div>
+        )}
+      </div>
     </motion.div>
   );
 
   // Render game over screen
   const renderGameOver = () => (
     <motion.div
+      data-gamepad-menu
       className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-80 z-50"
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
@@ -223,6 +350,31 @@ const Home: React.FC = () => {
     >
       <h1 className="text-4xl font-bold text-red-500 mb-4">Game Over</h1>
       <p className="text-2xl text-white mb-8">Final Score: {gameState.score}</p>
+      {!initialsEntered ? (
+        <InitialsEntry
+          onSubmit={saveHighScore}
+          title={
+            isHighScore(highScores, gameState.score)
+              ? undefined
+              : "Enter your initials for the online leaderboard"
+          }
+        />
+      ) : (
+        savedRank !== null && (
+          <p className="text-lg text-yellow-400 font-bold mb-8">
+            You placed #{savedRank} on the high-score table!
+          </p>
+        )
+      )}
+      {uploadStatus && (
+        <p className="text-sm text-gray-300 -mt-6 mb-8">
+          {uploadStatus === "submitted"
+            ? "Score sent to the online leaderboard"
+            : uploadStatus === "queued"
+              ? "You're offline; your score will be sent when you reconnect"
+              : "The online leaderboard couldn't verify this score"}
+        </p>
+      )}
       <motion.button
         className="px-8 py-3 bg-blue-600 text-white rounded-lg text-xl mb-4"
         whileHover={{ scale: 1.05 }}
@@ -231,6 +383,16 @@ const Home: React.FC = () => {
       >
         Play Again
       </motion.button>
+      {hasReplay && (
+        <motion.button
+          className="px-8 py-3 bg-purple-600 text-white rounded-lg text-xl mb-4"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => navigate("/replay")}
+        >
+          Watch Replay
+        </motion.button>
+      )}
       <motion.button
         className="px-8 py-3 bg-gray-600 text-white rounded-lg text-xl"
         whileHover={{ scale: 1.05 }}
@@ -247,6 +409,7 @@ const Home: React.FC = () => {
   // Render pause menu
   const renderPauseMenu = () => (
     <motion.div
+      data-gamepad-menu
       className="absolute inset-0 flex flex-col items-center justify-center bg-black bg-opacity-70 z-50"
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
@@ -280,35 +443,63 @@ const Home: React.FC = () => {
       <GameCanvas
         gameStatus={gameState.gameStatus}
         stage={gameState.stage}
-        onEnemyDestroyed={updateScore}
-        onEnemyReachedBottom={handleEnemyReachedBottom}
-        onPowerUpCollected={collectPowerup}
-        onTimeExpired={handleTimeExpired}
-        activePowerups={gameState.activePowerups}
-        onSpecialFire={handleSpecialAbility}
-        onShieldActivate={handleShieldActivate}
+        onScoreChange={handleScoreChange}
+        onPowerUpsChange={setActivePowerUps}
+        onTimeRemainingChange={setTimeRemaining}
+        onStageScored={(stage, breakdown) =>
+          setStageBreakdown({ stage, breakdown })
+        }
+        onHealthChange={handleHealthChange}
+        onGameOver={handleGameOver}
+        onStageCleared={openShop}
+        onUpgradePurchased={handleUpgradePurchased}
+        unlockedBulletTypes={unlockedBulletTypes}
+        onRunRecorded={handleRunRecorded}
+        renderer={settings.renderer}
+        debugOverlay={settings.debugOverlay}
+        keyBindings={keyBindings}
+        onPause={pauseGame}
+        commandBus={commandBus}
+        onControlStateChange={setControlState}
+        onBossChange={setBossStatus}
       />
 
       {/* Game HUD - Score, health, stage info */}
       <GameHUD
         score={gameState.score}
+        highScore={Math.max(getBestScore(highScores), gameState.score)}
         health={gameState.health}
+        maxHealth={gameState.maxHealth}
         stage={gameState.stage}
+        stageName={getStageScript(gameState.stage).name}
         combo={gameState.combo}
-        activePowerups={gameState.activePowerups}
+        comboMultiplier={gameState.comboMultiplier}
+        comboLeft={gameState.comboLeft}
+        activePowerUps={activePowerUps}
+        timeRemaining={timeRemaining}
+        boss={bossStatus}
         onPause={pauseGame}
       />
 
       {/* Game Controls - Touch controls for movement and shooting */}
       <GameControls
         onMove={handleMove}
+        onShootStart={handleShootStart}
         onShoot={handleShoot}
-        onSpecialAbility={handleSpecialAbility}
-        onShieldActivate={handleShieldActivate}
-        specialAbilityCharge={gameState.specialAbilityCharge}
-        specialAbilityCooldown={gameState.specialAbilityCooldown}
-        shieldCooldown={gameState.shieldCooldown}
-        shieldActive={gameState.shieldActive}
+        onSpecialAbility={() => commandBus.dispatch({ type: "specialFire" })}
+        onShieldActivate={() => commandBus.dispatch({ type: "shield" })}
+        onBomb={() => commandBus.dispatch({ type: "bomb" })}
+        onChangeBulletType={handleChangeBulletType}
+        weaponCooldown={controlState.weaponCooldown}
+        chargeLevel={controlState.chargeLevel}
+        maxChargeLevel={MAX_CHARGE_LEVEL}
+        currentBulletType={controlState.bulletType}
+        unlockedBulletTypes={getUnlockedBulletTypes(controlState.upgrades)}
+        specialAbilityCharge={controlState.specialCharge}
+        specialAbilityCooldown={controlState.specialCooldown}
+        shieldCooldown={controlState.shieldCooldown}
+        shieldActive={controlState.shieldActive}
+        bombs={controlState.bombs}
         gameStatus={gameState.gameStatus}
       />
 
@@ -316,6 +507,20 @@ const Home: React.FC = () => {
       {gameState.gameStatus === "menu" && renderMenu()}
       {gameState.gameStatus === "gameOver" && renderGameOver()}
       {gameState.gameStatus === "paused" && renderPauseMenu()}
+      {gameState.gameStatus === "shop" && stageBreakdown && (
+        <StageBreakdown
+          stage={stageBreakdown.stage}
+          breakdown={stageBreakdown.breakdown}
+          onContinue={() => setStageBreakdown(null)}
+        />
+      )}
+      {gameState.gameStatus === "shop" && !stageBreakdown && (
+        <UpgradeShop
+          stage={gameState.stage}
+          upgrades={controlState.upgrades}
+          onContinue={advanceStage}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,57 @@
+import { fireProjectile } from "./projectiles";
+import { GameWorld, Player } from "./types";
+import { getStatBonus } from "./upgrades";
+
+export const SHIELD_DURATION = 3000; // milliseconds
+export const SHIELD_COOLDOWN = 10000; // milliseconds from raising the shield until it can go up again
+export const SPECIAL_COOLDOWN = 5000; // milliseconds between special shots
+export const SPECIAL_COST = 25; // charge a special shot uses up
+export const MAX_SPECIAL_CHARGE = 100;
+export const START_SPECIAL_CHARGE = 75;
+const SPECIAL_RECHARGE = 1; // charge regained per second
+
+// Raise the shield unless it's still cooling down. Returns whether it went up.
+export const raiseShield = (world: GameWorld) => {
+  const { player } = world;
+  if (player.shieldCooldown > 0) return false;
+
+  player.shieldActive = true;
+  player.shieldDuration =
+    SHIELD_DURATION + getStatBonus(player.upgrades, "shieldCapacity");
+  player.shieldCooldown = SHIELD_COOLDOWN;
+  world.events.push({ type: "shieldActivated" });
+  return true;
+};
+
+// Fire a special shot if it has cooled down and there's charge enough to pay
+// for it. Returns whether it was fired.
+export const fireSpecial = (world: GameWorld) => {
+  const { player } = world;
+  if (player.specialCooldown > 0 || player.specialCharge < SPECIAL_COST) {
+    return false;
+  }
+  if (!fireProjectile(world, true)) return false;
+
+  player.specialCharge -= SPECIAL_COST;
+  player.specialCooldown = SPECIAL_COOLDOWN;
+  world.events.push({ type: "specialFired" });
+  return true;
+};
+
+// Run down the shield and the ability cooldowns, and slowly recharge the special
+export const updateAbilities = (player: Player, deltaTime: number) => {
+  if (player.shieldActive) {
+    player.shieldDuration -= deltaTime;
+    if (player.shieldDuration <= 0) {
+      player.shieldActive = false;
+      player.shieldDuration = 0;
+    }
+  }
+
+  player.shieldCooldown = Math.max(player.shieldCooldown - deltaTime, 0);
+  player.specialCooldown = Math.max(player.specialCooldown - deltaTime, 0);
+  player.specialCharge = Math.min(
+    player.specialCharge + (SPECIAL_RECHARGE * deltaTime) / 1000,
+    MAX_SPECIAL_CHARGE,
+  );
+};
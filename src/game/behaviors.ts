@@ -0,0 +1,136 @@
+import { Enemy, EnemyBehaviorId, GameWorld } from "./types";
+
+// Moves one enemy through a step. A behavior only changes the enemy it is
+// given and reads the player and playfield from the world, so each one can be
+// run on its own against a bare world.
+export type EnemyBehavior = (
+  enemy: Enemy,
+  world: GameWorld,
+  deltaTime: number,
+) => void;
+
+const SINE_AMPLITUDE = 60; // px either side of the spawn column
+const SINE_PERIOD = 1600; // milliseconds per full weave
+const DIVE_LINE = 0.3; // share of the playfield height where dives start
+const DIVE_SPEED = 3; // multiple of the enemy's speed while diving
+const STRAFE_LINE = 0.2; // share of the playfield height where strafing starts
+const STRAFE_SPEED = 3; // sideways speed as a multiple of the enemy's speed
+const STRAFE_DESCENT = 0.25; // downward speed while strafing, same units
+const SWOOP_ENTRY = 0.25; // share of the playfield height where the loop starts
+const SWOOP_RADIUS = 70; // px
+const HOMING_TURN = 0.6; // most sideways speed as a multiple of the enemy's speed
+
+// Keep an enemy's x inside the playfield
+const clampX = (enemy: Enemy, world: GameWorld, x: number) =>
+  Math.min(Math.max(x, 0), Math.max(world.width - enemy.width, 0));
+
+// Horizontal distance from the enemy's centre to the player's
+const getOffsetToPlayer = (enemy: Enemy, world: GameWorld) =>
+  world.player.x + world.player.width / 2 - (enemy.x + enemy.width / 2);
+
+// Straight down at a steady speed
+export const descend: EnemyBehavior = (enemy, world, deltaTime) => {
+  enemy.y += enemy.speed * deltaTime;
+};
+
+// Weave from side to side around the spawn column on the way down
+export const sine: EnemyBehavior = (enemy, world, deltaTime) => {
+  enemy.y += enemy.speed * deltaTime;
+  enemy.x = clampX(
+    enemy,
+    world,
+    enemy.originX +
+      enemy.direction *
+        SINE_AMPLITUDE *
+        Math.sin((enemy.age / SINE_PERIOD) * 2 * Math.PI),
+  );
+};
+
+// Drift in, then lock on to where the player is and dive at them in a
+// straight line. The dive doesn't follow the player once it has started.
+export const dive: EnemyBehavior = (enemy, world, deltaTime) => {
+  if (enemy.velocityX === undefined) {
+    enemy.y += enemy.speed * deltaTime;
+    if (enemy.y + enemy.height < world.height * DIVE_LINE) return;
+
+    const { player } = world;
+    const dx = getOffsetToPlayer(enemy, world);
+    // Always head downwards, even if the player is somehow above
+    const dy = Math.max(
+      player.y + player.height / 2 - (enemy.y + enemy.height / 2),
+      enemy.height,
+    );
+    const distance = Math.hypot(dx, dy);
+    enemy.velocityX = (dx / distance) * enemy.speed * DIVE_SPEED;
+    enemy.velocityY = (dy / distance) * enemy.speed * DIVE_SPEED;
+    return;
+  }
+
+  enemy.x = clampX(enemy, world, enemy.x + enemy.velocityX * deltaTime);
+  enemy.y += enemy.velocityY * deltaTime;
+};
+
+// Drop to the strafing line, then sweep across the playfield, bouncing off
+// the edges while slowly sinking
+export const strafe: EnemyBehavior = (enemy, world, deltaTime) => {
+  if (enemy.y < world.height * STRAFE_LINE) {
+    enemy.y += enemy.speed * deltaTime;
+    return;
+  }
+
+  enemy.y += enemy.speed * STRAFE_DESCENT * deltaTime;
+  const x = enemy.x + enemy.direction * enemy.speed * STRAFE_SPEED * deltaTime;
+  const clamped = clampX(enemy, world, x);
+  if (clamped !== x) enemy.direction = -enemy.direction;
+  enemy.x = clamped;
+};
+
+// Galaga-style entry: come straight down, fly one full loop towards the
+// middle of the playfield, then carry on down from where the loop started.
+// The position is worked out from the distance flown, so the path is exact.
+export const swoop: EnemyBehavior = (enemy, world) => {
+  const travelled = enemy.speed * enemy.age;
+  const entry = Math.max(world.height * SWOOP_ENTRY - enemy.originY, 0);
+  const loopLength = 2 * Math.PI * SWOOP_RADIUS;
+
+  if (travelled < entry) {
+    enemy.x = enemy.originX;
+    enemy.y = enemy.originY + travelled;
+  } else if (travelled < entry + loopLength) {
+    const angle = (travelled - entry) / SWOOP_RADIUS;
+    enemy.x = clampX(
+      enemy,
+      world,
+      enemy.originX + enemy.direction * SWOOP_RADIUS * (1 - Math.cos(angle)),
+    );
+    enemy.y = enemy.originY + entry + SWOOP_RADIUS * Math.sin(angle);
+  } else {
+    enemy.x = enemy.originX;
+    enemy.y = enemy.originY + travelled - loopLength;
+  }
+};
+
+// Come down while slowly steering towards the player
+export const homing: EnemyBehavior = (enemy, world, deltaTime) => {
+  enemy.y += enemy.speed * deltaTime;
+
+  const maxStep = enemy.speed * HOMING_TURN * deltaTime;
+  const step = Math.min(
+    Math.max(getOffsetToPlayer(enemy, world), -maxStep),
+    maxStep,
+  );
+  enemy.x = clampX(enemy, world, enemy.x + step);
+};
+
+export const ENEMY_BEHAVIORS: Record<EnemyBehaviorId, EnemyBehavior> = {
+  descend,
+  sine,
+  dive,
+  strafe,
+  swoop,
+  homing,
+};
+
+export const ENEMY_BEHAVIOR_IDS = Object.keys(
+  ENEMY_BEHAVIORS,
+) as EnemyBehaviorId[];
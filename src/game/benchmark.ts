@@ -0,0 +1,57 @@
+import { acquireEnemy } from "./enemies";
+import { createId } from "./ids";
+import { acquireProjectile } from "./projectiles";
+import { nextRandom } from "./random";
+import { GameWorld } from "./types";
+import { createWorld } from "./world";
+
+export const BENCHMARK_PROJECTILES = 500;
+export const BENCHMARK_ENEMIES = 200;
+
+// A stress scene for the collision and rendering paths: the playfield is kept
+// topped up with projectiles and tough, slow enemies
+export const createBenchmarkWorld = (width: number, height: number) => {
+  const world = createWorld({ width, height, seed: 1 });
+  // Without a stage script only the benchmark's own enemies appear
+  world.stageRun = null;
+  refillBenchmarkWorld(world);
+  return world;
+};
+
+// Top the scene back up after a step consumed projectiles or enemies
+export const refillBenchmarkWorld = (world: GameWorld) => {
+  // Power-ups would only add noise to the measurement
+  world.powerUpSpawnTimer = 0;
+  world.dropPityTimer = 0;
+  // Enemies reaching the bottom mustn't end the run
+  world.player.health = world.player.maxHealth;
+
+  while (world.enemies.length < BENCHMARK_ENEMIES) {
+    acquireEnemy(world, {
+      id: createId(world, "enemy"),
+      x: nextRandom(world.rng) * (world.width - 40),
+      y: nextRandom(world.rng) * world.height * 0.6 - 40,
+      type: "armored",
+      health: 1000,
+      speed: 0.01,
+      width: 40,
+      height: 40,
+      behavior: "descend",
+      direction: 1,
+      fireTimer: Infinity, // Enemy fire would only add noise too
+    });
+  }
+
+  while (world.projectiles.length < BENCHMARK_PROJECTILES) {
+    acquireProjectile(world, {
+      id: createId(world, "projectile"),
+      x: nextRandom(world.rng) * (world.width - 10),
+      y: world.height - nextRandom(world.rng) * world.height * 0.3,
+      speed: 0.5,
+      width: 10,
+      height: 20,
+      damage: 1,
+      bulletType: "standard",
+    });
+  }
+};
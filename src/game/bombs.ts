@@ -0,0 +1,57 @@
+import { GameWorld, Player } from "./types";
+
+export const MAX_BOMBS = 3; // Bombs picked up beyond this are lost
+export const BOMB_DAMAGE = 10; // At the centre of the blast, less further out
+const SHOCKWAVE_SPEED = 0.9; // px per ms the wave front travels
+
+// Put a bomb in the player's inventory, unless it's already full
+export const addBomb = (player: Player) => {
+  const bomb = player.powerUps.bomb ?? { active: false, count: 0 };
+  player.powerUps.bomb = {
+    ...bomb,
+    count: Math.min(bomb.count + 1, MAX_BOMBS),
+  };
+};
+
+// Set off a bomb from the inventory, sending a shockwave out from the
+// player. Only one wave runs at a time. Returns whether a bomb went off.
+export const detonateBomb = (world: GameWorld) => {
+  const { player } = world;
+  const bomb = player.powerUps.bomb;
+  if (!bomb || bomb.count === 0 || bomb.active) return false;
+
+  bomb.count -= 1;
+  bomb.active = true;
+  const x = player.x + player.width / 2;
+  const y = player.y + player.height / 2;
+  world.shockwave = {
+    x,
+    y,
+    radius: 0,
+    // Far enough to reach every corner of the playfield
+    maxRadius: Math.hypot(
+      Math.max(x, world.width - x),
+      Math.max(y, world.height - y),
+    ),
+    hitIds: [],
+  };
+  world.events.push({ type: "bombDetonated" });
+  return true;
+};
+
+// Grow the wave until it has swept the whole playfield. What it hits is
+// handled with the other collisions.
+export const updateShockwave = (world: GameWorld, deltaTime: number) => {
+  const { shockwave } = world;
+  if (!shockwave) return;
+
+  if (shockwave.radius >= shockwave.maxRadius) {
+    world.shockwave = null;
+    world.player.powerUps.bomb.active = false;
+    return;
+  }
+  shockwave.radius = Math.min(
+    shockwave.radius + SHOCKWAVE_SPEED * deltaTime,
+    shockwave.maxRadius,
+  );
+};
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import bossData from "./bosses.json";
+import { hasBulletPattern } from "./bulletPatterns";
+import { parseData } from "./data";
+import { hasArchetype } from "./enemyArchetypes";
+import { POWER_UP_TYPES } from "./powerUps";
+import { PowerUp } from "./types";
+
+export const BOSS_STAGE_INTERVAL = 5; // every fifth stage is a boss fight
+
+// A part of the boss with its own hitbox. Hits there do extra damage until
+// its own health runs out, which also silences the attacks fired from it.
+export interface BossWeakPoint {
+  id: string;
+  x: number; // px from the boss's top left corner
+  y: number;
+  width: number;
+  height: number;
+  health: number;
+  damage: number; // multiplier on the damage of hits here
+}
+
+// One step of a phase's attack script
+export interface BossAttack {
+  pattern: string; // Bullet pattern id
+  from?: string; // Weak point it fires from, the boss's centre if not given
+  delay: number; // milliseconds before the next step
+}
+
+export interface BossPhase {
+  fromHealth: number; // share of full health at which the phase begins
+  sway: number; // milliseconds for one side-to-side sweep
+  script: BossAttack[]; // Played in order, then repeated
+  summon?: { archetype: string; count: number; interval: number };
+}
+
+// A scripted boss fight. New bosses are added in bosses.json.
+export interface BossDefinition {
+  id: string;
+  name: string;
+  health: number;
+  width: number;
+  height: number;
+  armor: number; // multiplier on the damage of hits outside weak points
+  sprite: { color: string; image?: string };
+  weakPoints: BossWeakPoint[];
+  phases: BossPhase[];
+  reward: { score: number; powerUp: PowerUp["type"] };
+}
+
+const weakPointSchema = z.object({
+  id: z.string().min(1),
+  x: z.number().nonnegative(),
+  y: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  health: z.number().positive(),
+  damage: z.number().positive(),
+});
+
+const phaseSchema = z.object({
+  fromHealth: z.number().gt(0).max(1),
+  sway: z.number().positive(),
+  script: z
+    .array(
+      z.object({
+        pattern: z.string().refine(hasBulletPattern, "Unknown bullet pattern"),
+        from: z.string().optional(),
+        delay: z.number().positive(),
+      }),
+    )
+    .min(1),
+  summon: z
+    .object({
+      archetype: z.string().refine(hasArchetype, "Unknown enemy archetype"),
+      count: z.number().int().positive(),
+      interval: z.number().positive(),
+    })
+    .optional(),
+});
+
+const bossSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    health: z.number().positive(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    armor: z.number().min(0),
+    sprite: z.object({
+      color: z.string(),
+      image: z.string().url().optional(),
+    }),
+    weakPoints: z.array(weakPointSchema),
+    phases: z.array(phaseSchema).min(1),
+    reward: z.object({
+      score: z.number().int().nonnegative(),
+      powerUp: z.enum(
+        POWER_UP_TYPES as [PowerUp["type"], ...PowerUp["type"][]],
+      ),
+    }),
+  })
+  .superRefine((boss, ctx) => {
+    const weakPointIds = new Set(boss.weakPoints.map((point) => point.id));
+    if (weakPointIds.size !== boss.weakPoints.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Weak point ids must be unique",
+        path: ["weakPoints"],
+      });
+    }
+
+    boss.phases.forEach((phase, index) => {
+      const previous = boss.phases[index - 1];
+      if (
+        index === 0
+          ? phase.fromHealth !== 1
+          : phase.fromHealth >= previous.fromHealth
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            "Phases must start at full health and begin at falling health",
+          path: ["phases", index, "fromHealth"],
+        });
+      }
+
+      phase.script.forEach((attack, step) => {
+        if (attack.from && !weakPointIds.has(attack.from)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown weak point: ${attack.from}`,
+            path: ["phases", index, "script", step, "from"],
+          });
+        }
+      });
+    });
+  });
+
+const registrySchema = z
+  .array(bossSchema)
+  .min(1)
+  .refine(
+    (bosses) => new Set(bosses.map((boss) => boss.id)).size === bosses.length,
+    "Boss ids must be unique",
+  );
+
+// Check boss definitions, throwing with the problems found if they're invalid
+export const parseBossDefinitions = (data: unknown) =>
+  parseData<BossDefinition[]>(registrySchema, data, "boss definitions");
+
+export const BOSS_DEFINITIONS = parseBossDefinitions(bossData);
+
+const bossesById = new Map(BOSS_DEFINITIONS.map((boss) => [boss.id, boss]));
+
+// Whether a boss with this id exists
+export const hasBossDefinition = (id: string) => bossesById.has(id);
+
+// Look up a boss definition by its id
+export const getBossDefinition = (id: string) => {
+  const boss = bossesById.get(id);
+  if (!boss) throw new Error(`Unknown boss: ${id}`);
+  return boss;
+};
+
+// Whether a stage past the authored ones is a boss fight
+export const isBossStage = (stage: number) => stage % BOSS_STAGE_INTERVAL === 0;
+
+// The boss fought on a boss stage. They take turns, in the order defined.
+export const getBossForStage = (stage: number) =>
+  BOSS_DEFINITIONS[(stage / BOSS_STAGE_INTERVAL - 1) % BOSS_DEFINITIONS.length];
@@ -0,0 +1,275 @@
+import {
+  BossAttack,
+  BossDefinition,
+  BossWeakPoint,
+  getBossDefinition,
+} from "./bossDefinitions";
+import { getBulletPattern } from "./bulletPatterns";
+import { getArchetype } from "./enemyArchetypes";
+import { fireVolley } from "./enemyBullets";
+import { spawnArchetype } from "./enemies";
+import { removeWhere } from "./pool";
+import { applyPowerUp } from "./powerUps";
+import { Boss, GameWorld } from "./types";
+
+export const BOSS_INTRO_TIME = 3000; // milliseconds flying in, unharmed
+export const BOSS_DEFEAT_TIME = 2500; // milliseconds exploding before the reward
+const BOSS_TOP = 70; // px from the top of the playfield while fighting
+const BOSS_SWAY = 0.8; // share of the free width each sweep covers
+const PHASE_PAUSE = 800; // milliseconds of quiet after a phase change
+
+// What the HUD shows about the boss
+export interface BossStatus {
+  name: string;
+  health: number;
+  maxHealth: number;
+  phase: number; // 1-based
+  phaseCount: number;
+  state: Boss["state"];
+}
+
+// Set up a boss, waiting above the playfield for its intro. Its health and
+// that of its weak points are multiplied by the scale.
+export const createBoss = (definition: BossDefinition, scale = 1): Boss => {
+  return {
+    id: definition.id,
+    x: 0,
+    y: -definition.height,
+    width: definition.width,
+    height: definition.height,
+    health: definition.health * scale,
+    maxHealth: definition.health * scale,
+    state: "intro",
+    stateTime: 0,
+    phase: 0,
+    swayAngle: 0,
+    scriptStep: 0,
+    scriptTimer: PHASE_PAUSE,
+    summonTimer: definition.phases[0].summon?.interval ?? 0,
+    volleys: 0,
+    weakPointHealth: definition.weakPoints.map((point) => point.health * scale),
+  };
+};
+
+// Where a weak point is on the playfield
+export const getWeakPointBox = (boss: Boss, weakPoint: BossWeakPoint) => ({
+  x: boss.x + weakPoint.x,
+  y: boss.y + weakPoint.y,
+  width: weakPoint.width,
+  height: weakPoint.height,
+});
+
+// The last phase whose health threshold has been reached
+export const getPhaseForHealth = (
+  definition: BossDefinition,
+  healthShare: number,
+) => {
+  let phase = 0;
+  definition.phases.forEach((candidate, index) => {
+    if (healthShare <= candidate.fromHealth) phase = index;
+  });
+  return phase;
+};
+
+const setBossState = (boss: Boss, state: Boss["state"]) => {
+  boss.state = state;
+  boss.stateTime = 0;
+};
+
+// Fire one step of the attack script, unless its weak point has been destroyed
+const fireAttack = (
+  world: GameWorld,
+  boss: Boss,
+  definition: BossDefinition,
+  attack: BossAttack,
+) => {
+  let shooter = {
+    x: boss.x,
+    y: boss.y,
+    width: boss.width,
+    height: boss.height,
+  };
+
+  if (attack.from) {
+    const index = definition.weakPoints.findIndex(
+      (point) => point.id === attack.from,
+    );
+    if (boss.weakPointHealth[index] <= 0) return;
+    shooter = getWeakPointBox(boss, definition.weakPoints[index]);
+  }
+
+  fireVolley(world, shooter, boss.volleys, getBulletPattern(attack.pattern));
+  boss.volleys += 1;
+};
+
+// Sweep from side to side, faster in later phases
+const swayBoss = (
+  world: GameWorld,
+  boss: Boss,
+  definition: BossDefinition,
+  deltaTime: number,
+) => {
+  const { sway } = definition.phases[boss.phase];
+  const freeWidth = Math.max(world.width - boss.width, 0);
+  boss.swayAngle += (deltaTime / sway) * 2 * Math.PI;
+  boss.x =
+    freeWidth / 2 + (Math.sin(boss.swayAngle) * freeWidth * BOSS_SWAY) / 2;
+  boss.y = BOSS_TOP;
+};
+
+// Play the current phase's attack script, looping back to the start
+const runAttackScript = (
+  world: GameWorld,
+  boss: Boss,
+  definition: BossDefinition,
+  deltaTime: number,
+) => {
+  const { script } = definition.phases[boss.phase];
+  boss.scriptTimer -= deltaTime;
+
+  while (boss.scriptTimer <= 0) {
+    const attack = script[boss.scriptStep];
+    fireAttack(world, boss, definition, attack);
+    boss.scriptTimer += attack.delay;
+    boss.scriptStep = (boss.scriptStep + 1) % script.length;
+  }
+};
+
+// Call in minions below the boss, spread across its width
+const summonMinions = (
+  world: GameWorld,
+  boss: Boss,
+  definition: BossDefinition,
+  deltaTime: number,
+) => {
+  const { summon } = definition.phases[boss.phase];
+  if (!summon) return;
+
+  boss.summonTimer -= deltaTime;
+  if (boss.summonTimer > 0) return;
+  boss.summonTimer += summon.interval;
+
+  const archetype = getArchetype(summon.archetype);
+  for (let i = 0; i < summon.count; i++) {
+    const x =
+      boss.x +
+      ((i + 1) / (summon.count + 1)) * boss.width -
+      archetype.width / 2;
+    spawnArchetype(
+      world,
+      archetype,
+      Math.min(Math.max(x, 0), world.width - archetype.width),
+      boss.y + boss.height,
+    );
+  }
+};
+
+// Run the boss's intro, fight or defeat sequence for one step
+export const updateBoss = (world: GameWorld, deltaTime: number) => {
+  const { boss } = world;
+  if (!boss) return;
+
+  const definition = getBossDefinition(boss.id);
+  if (boss.state === "intro" && boss.stateTime === 0) {
+    world.events.push({ type: "bossAppeared", name: definition.name });
+  }
+  boss.stateTime += deltaTime;
+
+  switch (boss.state) {
+    case "intro": {
+      // Descend into position above the middle of the playfield
+      const progress = Math.min(boss.stateTime / BOSS_INTRO_TIME, 1);
+      boss.x = (world.width - boss.width) / 2;
+      boss.y = -boss.height + (BOSS_TOP + boss.height) * progress;
+      if (progress === 1) setBossState(boss, "fighting");
+      break;
+    }
+    case "fighting":
+      swayBoss(world, boss, definition, deltaTime);
+      runAttackScript(world, boss, definition, deltaTime);
+      summonMinions(world, boss, definition, deltaTime);
+      break;
+    case "defeated":
+      // Hand out the reward once the explosion has played out
+      if (boss.stateTime >= BOSS_DEFEAT_TIME) {
+        world.boss = null;
+        world.events.push({
+          type: "bossDefeated",
+          points: definition.reward.score,
+          reward: definition.reward.powerUp,
+        });
+        applyPowerUp(world, definition.reward.powerUp);
+      }
+      break;
+  }
+};
+
+// Damage the boss, either on a weak point (by its index) or on its armoured
+// hull, moving it to the next phase or into its defeat when thresholds pass
+export const damageBoss = (
+  world: GameWorld,
+  boss: Boss,
+  damage: number,
+  weakPointIndex: number | null,
+) => {
+  if (boss.state !== "fighting") return;
+  const definition = getBossDefinition(boss.id);
+
+  if (weakPointIndex === null) {
+    boss.health -= damage * definition.armor;
+  } else {
+    const weakPoint = definition.weakPoints[weakPointIndex];
+    boss.health -= damage * weakPoint.damage;
+    boss.weakPointHealth[weakPointIndex] -= damage;
+    if (boss.weakPointHealth[weakPointIndex] <= 0) {
+      world.events.push({
+        type: "weakPointDestroyed",
+        weakPoint: weakPoint.id,
+      });
+    }
+  }
+
+  if (boss.health <= 0) {
+    boss.health = 0;
+    setBossState(boss, "defeated");
+    // Its bullets go with it
+    removeWhere(world.enemyBullets, () => true, world.pools.enemyBullets);
+    return;
+  }
+
+  const phase = getPhaseForHealth(definition, boss.health / boss.maxHealth);
+  if (phase !== boss.phase) {
+    boss.phase = phase;
+    boss.scriptStep = 0;
+    boss.scriptTimer = PHASE_PAUSE;
+    boss.summonTimer = PHASE_PAUSE;
+    world.events.push({ type: "bossPhaseChanged", phase });
+  }
+};
+
+// What the HUD needs to know about the boss, or null when there isn't one
+export const getBossStatus = (world: GameWorld): BossStatus | null => {
+  const { boss } = world;
+  if (!boss) return null;
+
+  const definition = getBossDefinition(boss.id);
+  return {
+    name: definition.name,
+    health: Math.ceil(boss.health),
+    maxHealth: Math.ceil(boss.maxHealth),
+    phase: boss.phase + 1,
+    phaseCount: definition.phases.length,
+    state: boss.state,
+  };
+};
+
+// Whether two boss statuses would look the same on the HUD
+export const isSameBossStatus = (a: BossStatus | null, b: BossStatus | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.name === b.name &&
+    a.health === b.health &&
+    a.maxHealth === b.maxHealth &&
+    a.phase === b.phase &&
+    a.state === b.state);
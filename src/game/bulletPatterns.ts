@@ -0,0 +1,62 @@
+import { z } from "zod";
+import patternData from "./bulletPatterns.json";
+import { parseData } from "./data";
+
+// How a volley's bullets are laid out
+export const BULLET_PATTERN_KINDS = [
+  "aimed", // fanned around the direction of the player
+  "spread", // fanned around straight down
+  "ring", // evenly around a full circle
+  "spiral", // a ring that turns a little with every volley
+] as const;
+
+// One enemy volley. New patterns are added in bulletPatterns.json.
+export interface BulletPattern {
+  id: string;
+  kind: (typeof BULLET_PATTERN_KINDS)[number];
+  count: number; // bullets per volley
+  spread: number; // degrees between neighbouring bullets in aimed and spread volleys
+  rotation?: number; // degrees a spiral turns between volleys
+  speed: number; // px per ms
+  size: number; // px
+  color: string;
+}
+
+const patternSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(BULLET_PATTERN_KINDS),
+  count: z.number().int().positive(),
+  spread: z.number().nonnegative(),
+  rotation: z.number().optional(),
+  speed: z.number().positive(),
+  size: z.number().positive(),
+  color: z.string(),
+});
+
+const registrySchema = z
+  .array(patternSchema)
+  .refine(
+    (patterns) =>
+      new Set(patterns.map((pattern) => pattern.id)).size === patterns.length,
+    "Bullet pattern ids must be unique",
+  );
+
+// Check pattern definitions, throwing with the problems found if they're invalid
+export const parseBulletPatterns = (data: unknown) =>
+  parseData<BulletPattern[]>(registrySchema, data, "bullet patterns");
+
+export const BULLET_PATTERNS = parseBulletPatterns(patternData);
+
+const patternsById = new Map(
+  BULLET_PATTERNS.map((pattern) => [pattern.id, pattern]),
+);
+
+// Whether a pattern with this id exists
+export const hasBulletPattern = (id: string) => patternsById.has(id);
+
+// Look up a bullet pattern by its id
+export const getBulletPattern = (id: string) => {
+  const pattern = patternsById.get(id);
+  if (!pattern) throw new Error(`Unknown bullet pattern: ${id}`);
+  return pattern;
+};
@@ -0,0 +1,264 @@
+import { BOMB_DAMAGE } from "./bombs";
+import { getBossDefinition } from "./bossDefinitions";
+import { damageBoss, getWeakPointBox } from "./bosses";
+import { dropLoot } from "./drops";
+import { getEnemyPoints } from "./enemies";
+import { addExplosion, distanceToBox, getSplashDamage } from "./explosions";
+import { removeWhere } from "./pool";
+import { applyPowerUp } from "./powerUps";
+import {
+  clearGrid,
+  createGrid,
+  insertIntoGrid,
+  queryGrid,
+} from "./spatialGrid";
+import { Boss, Box, Enemy, GameWorld, Player, Projectile } from "./types";
+
+// Enemy bullets only count inside this much of the player's box, so grazing
+// the edge of the sprite doesn't cost health
+const PLAYER_HITBOX_INSET = 15; // px on each side
+
+// Enemies are bucketed into this grid each step so projectiles only test
+// the enemies near them. Reused between steps to avoid allocating.
+const enemyGrid = createGrid(64);
+const destroyedEnemies = new Set<Enemy>();
+const spentProjectiles = new Set<Projectile>();
+
+// Simple rectangle collision detection
+export const intersects = (a: Box, b: Box) =>
+  a.x < b.x + b.width &&
+  a.x + a.width > b.x &&
+  a.y < b.y + b.height &&
+  a.y + a.height > b.y;
+
+// Whether the player is protected by the shield ability or power-up
+export const isPlayerShielded = (player: Player) =>
+  Boolean(player.shieldActive || player.powerUps.shield?.active);
+
+// The part of the player that enemy bullets can hit
+export const getPlayerHitbox = (player: Player): Box => ({
+  x: player.x + PLAYER_HITBOX_INSET,
+  y: player.y + PLAYER_HITBOX_INSET,
+  width: player.width - PLAYER_HITBOX_INSET * 2,
+  height: player.height - PLAYER_HITBOX_INSET * 2,
+});
+
+// Take health off an enemy, destroying it once none is left. The projectile
+// responsible, if any, is credited with the kill.
+const damageEnemy = (
+  world: GameWorld,
+  enemy: Enemy,
+  damage: number,
+  projectile?: Projectile,
+) => {
+  if (destroyedEnemies.has(enemy)) return;
+
+  enemy.health -= damage;
+  if (enemy.health <= 0) {
+    if (projectile) projectile.kills = (projectile.kills ?? 0) + 1;
+    world.events.push({
+      type: "enemyDestroyed",
+      points: getEnemyPoints(enemy),
+      enemy,
+      shot: projectile && {
+        chargeLevel: projectile.chargeLevel ?? 0,
+        kills: projectile.kills,
+      },
+    });
+    destroyedEnemies.add(enemy);
+    dropLoot(world, enemy);
+  }
+};
+
+// Burst an explosive projectile where it struck, hurting everything else in
+// its radius less the further away it is
+const detonate = (
+  world: GameWorld,
+  projectile: Projectile,
+  struck: Enemy | Boss,
+) => {
+  const x = projectile.x + projectile.width / 2;
+  const y = projectile.y + projectile.height / 2;
+  const radius = projectile.splashRadius;
+  const damage = projectile.damage || 1;
+  addExplosion(world, x, y, radius);
+
+  world.enemies.forEach((enemy) => {
+    if (enemy === struck) return;
+    const splash = getSplashDamage(damage, distanceToBox(x, y, enemy), radius);
+    if (splash > 0) damageEnemy(world, enemy, splash, projectile);
+  });
+
+  const { boss } = world;
+  if (boss && boss !== struck && boss.state === "fighting") {
+    const splash = getSplashDamage(damage, distanceToBox(x, y, boss), radius);
+    if (splash > 0) damageBoss(world, boss, splash, null);
+  }
+};
+
+// Damage everything a bomb's wave front has reached, once each and less the
+// further from the blast, and wipe out the enemy bullets it has passed
+const checkShockwave = (world: GameWorld) => {
+  const { shockwave, boss } = world;
+  if (!shockwave) return;
+
+  const { x, y, radius, maxRadius } = shockwave;
+  const reach = (target: Enemy | Boss) => {
+    const distance = distanceToBox(x, y, target);
+    if (distance > radius || shockwave.hitIds.includes(target.id)) return 0;
+
+    shockwave.hitIds.push(target.id);
+    return getSplashDamage(BOMB_DAMAGE, distance, maxRadius);
+  };
+
+  world.enemies.forEach((enemy) => {
+    const damage = reach(enemy);
+    if (damage > 0) damageEnemy(world, enemy, damage);
+  });
+  if (boss && boss.state === "fighting") {
+    const damage = reach(boss);
+    if (damage > 0) damageBoss(world, boss, damage, null);
+  }
+
+  removeWhere(
+    world.enemyBullets,
+    (bullet) => distanceToBox(x, y, bullet) <= radius,
+    world.pools.enemyBullets,
+  );
+};
+
+// Count a hit on a piercing projectile. Returns whether it is used up.
+const pierce = (projectile: Projectile, id: string) => {
+  projectile.hitIds = [...(projectile.hitIds ?? []), id];
+  return (
+    projectile.pierceLimit !== undefined &&
+    projectile.hitIds.length >= projectile.pierceLimit
+  );
+};
+
+// Apply a projectile's hit to an enemy. Returns whether the projectile is used up.
+const hitEnemy = (world: GameWorld, projectile: Projectile, enemy: Enemy) => {
+  // Piercing projectiles only damage each enemy once
+  if (projectile.hitIds?.includes(enemy.id)) return false;
+
+  damageEnemy(world, enemy, projectile.damage || 1, projectile);
+  if (projectile.splashRadius) detonate(world, projectile, enemy);
+
+  return projectile.piercing ? pierce(projectile, enemy.id) : true;
+};
+
+// Apply a projectile's hit to the boss, weak points before the hull.
+// Returns whether the projectile is used up.
+const hitBoss = (world: GameWorld, projectile: Projectile) => {
+  const { boss } = world;
+  if (
+    boss.state !== "fighting" ||
+    projectile.hitIds?.includes(boss.id) ||
+    !intersects(projectile, boss)
+  ) {
+    return false;
+  }
+
+  const weakPoint = getBossDefinition(boss.id).weakPoints.findIndex(
+    (point, index) =>
+      boss.weakPointHealth[index] > 0 &&
+      intersects(projectile, getWeakPointBox(boss, point)),
+  );
+  damageBoss(
+    world,
+    boss,
+    projectile.damage || 1,
+    weakPoint === -1 ? null : weakPoint,
+  );
+  if (projectile.splashRadius) detonate(world, projectile, boss);
+
+  return projectile.piercing ? pierce(projectile, boss.id) : true;
+};
+
+// Check for collisions between game objects
+export const checkCollisions = (world: GameWorld) => {
+  const { player, enemies } = world;
+  destroyedEnemies.clear();
+  spentProjectiles.clear();
+
+  // Broadphase: bucket enemies by position
+  clearGrid(enemyGrid);
+  enemies.forEach((enemy, index) => insertIntoGrid(enemyGrid, index, enemy));
+
+  // Narrowphase: a projectile is used up by the first enemy it hits unless it pierces
+  world.projectiles.forEach((projectile) => {
+    queryGrid(enemyGrid, projectile, (index) => {
+      const enemy = enemies[index];
+      if (destroyedEnemies.has(enemy) || !intersects(projectile, enemy)) {
+        return;
+      }
+
+      if (hitEnemy(world, projectile, enemy)) {
+        spentProjectiles.add(projectile);
+        return true;
+      }
+    });
+  });
+
+  checkShockwave(world);
+
+  if (world.boss) {
+    world.projectiles.forEach((projectile) => {
+      if (!spentProjectiles.has(projectile) && hitBoss(world, projectile)) {
+        spentProjectiles.add(projectile);
+      }
+    });
+  }
+
+  // Check enemy-player collisions (only if shield is not active)
+  if (!isPlayerShielded(player)) {
+    queryGrid(enemyGrid, player, (index) => {
+      const enemy = enemies[index];
+      if (destroyedEnemies.has(enemy) || !intersects(player, enemy)) return;
+
+      // Player hit by enemy
+      world.events.push({ type: "playerHit", enemy });
+      destroyedEnemies.add(enemy);
+    });
+  }
+
+  removeWhere(
+    world.projectiles,
+    (projectile) => spentProjectiles.has(projectile),
+    world.pools.projectiles,
+  );
+  removeWhere(
+    enemies,
+    (enemy) => destroyedEnemies.has(enemy),
+    world.pools.enemies,
+  );
+
+  checkEnemyBulletCollisions(world);
+
+  // Check player-powerup collisions
+  const collected = world.powerUps.filter((powerUp) =>
+    intersects(player, powerUp),
+  );
+  if (collected.length > 0) {
+    removeWhere(world.powerUps, (powerUp) => collected.includes(powerUp));
+    collected.forEach((powerUp) => applyPowerUp(world, powerUp.type));
+  }
+};
+
+// Enemy bullets against the player. A shield absorbs them without harm.
+const checkEnemyBulletCollisions = (world: GameWorld) => {
+  const { player } = world;
+  const hitbox = getPlayerHitbox(player);
+  const shielded = isPlayerShielded(player);
+
+  removeWhere(
+    world.enemyBullets,
+    (bullet) => {
+      if (!intersects(bullet, hitbox)) return false;
+
+      if (!shielded) world.events.push({ type: "playerShot", bullet });
+      return true;
+    },
+    world.pools.enemyBullets,
+  );
+};
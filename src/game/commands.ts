@@ -0,0 +1,130 @@
+import { cycleBulletType } from "./projectiles";
+import { BulletType, GameInput, GameWorld, PlayerUpgrades } from "./types";
+import { isBulletTypeUnlocked } from "./upgrades";
+
+// Everything a control surface (pointer, keyboard, gamepad, on-screen
+// controls) can ask the simulation to do
+export type GameCommand =
+  | { type: "moveTo"; position: number } // 0 to 1 across the playfield
+  | { type: "moveAxis"; axis: number } // -1 to 1, held until changed
+  | { type: "fireStart" } // Start charging
+  | { type: "fireRelease" } // Fire at the current charge level
+  | { type: "specialFire" }
+  | { type: "shield" }
+  | { type: "bomb" }
+  | { type: "selectBulletType"; bulletType: BulletType }
+  | { type: "cycleBulletType"; direction: 1 | -1 }
+  | { type: "purchase"; upgrade: string }; // Upgrade id, bought in the shop
+
+export type CommandListener = (command: GameCommand) => void;
+
+export interface CommandBus {
+  dispatch: (command: GameCommand) => void;
+  subscribe: (listener: CommandListener) => () => void;
+}
+
+// What the controls show back to the player
+export interface ControlState {
+  weaponCooldown: number; // seconds
+  chargeLevel: number;
+  isCharging: boolean;
+  bulletType: BulletType;
+  upgrades: PlayerUpgrades; // Credits and levels, for the shop
+  bombs: number;
+  shieldActive: boolean;
+  shieldCooldown: number; // whole seconds
+  specialCooldown: number; // whole seconds
+  specialCharge: number; // whole percent
+}
+
+// Connects the controls to whichever game is listening
+export const createCommandBus = (): CommandBus => {
+  const listeners = new Set<CommandListener>();
+
+  return {
+    dispatch: (command) => listeners.forEach((listener) => listener(command)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Turn a command into input for the next simulation step
+export const applyCommand = (
+  world: GameWorld,
+  input: GameInput,
+  command: GameCommand,
+) => {
+  switch (command.type) {
+    case "moveTo":
+      // Whole pixels keep recorded replays small
+      input.targetX = Math.round(
+        command.position * world.width - world.player.width / 2,
+      );
+      break;
+    case "moveAxis":
+      input.moveAxis = command.axis;
+      break;
+    case "fireStart":
+      input.firePressed = true;
+      break;
+    case "fireRelease":
+      input.fireReleased = true;
+      break;
+    case "specialFire":
+      input.specialFire = true;
+      break;
+    case "shield":
+      input.shield = true;
+      break;
+    case "bomb":
+      input.bomb = true;
+      break;
+    case "selectBulletType":
+      input.bulletType = command.bulletType;
+      break;
+    case "cycleBulletType": {
+      // Start from a switch still waiting for the next step so quick presses
+      // add up, and skip types that are still locked
+      let bulletType = input.bulletType ?? world.player.currentBulletType;
+      do {
+        bulletType = cycleBulletType(bulletType, command.direction);
+      } while (!isBulletTypeUnlocked(world.player.upgrades, bulletType));
+      input.bulletType = bulletType;
+      break;
+    }
+    case "purchase":
+      input.purchases.push(command.upgrade);
+      break;
+  }
+};
+
+// Read the state the controls display, rounded so it only changes visibly
+export const getControlState = (world: GameWorld): ControlState => ({
+  weaponCooldown: Math.ceil(world.player.currentCooldown / 100) / 10,
+  chargeLevel: world.currentChargeLevel,
+  isCharging: world.chargeStartTime !== null,
+  bulletType: world.player.currentBulletType,
+  upgrades: world.player.upgrades,
+  bombs: world.player.powerUps.bomb?.count ?? 0,
+  shieldActive: world.player.shieldActive ?? false,
+  shieldCooldown: Math.ceil(world.player.shieldCooldown / 1000),
+  specialCooldown: Math.ceil(world.player.specialCooldown / 1000),
+  specialCharge: Math.floor(world.player.specialCharge),
+});
+
+// Whether two control states would display the same
+export const isSameControlState = (a: ControlState, b: ControlState) =>
+  a.weaponCooldown === b.weaponCooldown &&
+  a.chargeLevel === b.chargeLevel &&
+  a.isCharging === b.isCharging &&
+  a.bulletType === b.bulletType &&
+  a.upgrades === b.upgrades &&
+  a.bombs === b.bombs &&
+  a.shieldActive === b.shieldActive &&
+  a.shieldCooldown === b.shieldCooldown &&
+  a.specialCooldown === b.specialCooldown &&
+  a.specialCharge === b.specialCharge;
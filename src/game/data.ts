@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Check data against its schema, throwing with the problems found if it's
+// invalid. The caller names the type it describes: without strict null
+// checks zod types every field as optional, so the parsed type can't be used.
+export const parseData = <T>(
+  schema: z.ZodTypeAny,
+  data: unknown,
+  label: string,
+): T => {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${label}: ${parsed.error.message}`);
+  }
+  return parsed.data as T;
+};
@@ -0,0 +1,49 @@
+import { createId } from "./ids";
+import { acquireProjectile } from "./projectiles";
+import { GameWorld, Player } from "./types";
+
+export const DRONE_SIZE = 20;
+const DRONE_COUNT = 2;
+const ORBIT_RADIUS = 55; // px from the player's centre
+const ORBIT_SPEED = 0.003; // radians per ms
+const DRONE_COOLDOWN = 400; // milliseconds between volleys
+
+// Where each helper drone is, circling the player over time. Positions are
+// the drones' top-left corners.
+export const getDronePositions = (player: Player, time: number) => {
+  if (!player.powerUps.drones?.active) return [];
+
+  const centreX = player.x + player.width / 2;
+  const centreY = player.y + player.height / 2;
+  return Array.from({ length: DRONE_COUNT }, (_, index) => {
+    const angle = time * ORBIT_SPEED + (index * 2 * Math.PI) / DRONE_COUNT;
+    return {
+      x: centreX + Math.cos(angle) * ORBIT_RADIUS - DRONE_SIZE / 2,
+      y: centreY + Math.sin(angle) * ORBIT_RADIUS - DRONE_SIZE / 2,
+    };
+  });
+};
+
+// Let the drones fire small shots straight up whenever they're ready
+export const updateDrones = (world: GameWorld, deltaTime: number) => {
+  const { player } = world;
+  player.droneCooldown = Math.max((player.droneCooldown ?? 0) - deltaTime, 0);
+  if (player.droneCooldown > 0) return;
+
+  const positions = getDronePositions(player, world.time);
+  if (positions.length === 0) return;
+
+  positions.forEach(({ x, y }) => {
+    acquireProjectile(world, {
+      id: createId(world, "projectile"),
+      x: x + DRONE_SIZE / 2 - 2,
+      y,
+      speed: 0.6,
+      width: 4,
+      height: 10,
+      damage: 0.5,
+      bulletType: "standard",
+    });
+  });
+  player.droneCooldown = DRONE_COOLDOWN;
+};
@@ -0,0 +1,29 @@
+import { EnemyArchetype, getArchetype } from "./enemyArchetypes";
+import { dropPowerUp } from "./powerUps";
+import { nextRandom, randomWeighted, RandomState } from "./random";
+import { Enemy, GameWorld } from "./types";
+
+// Milliseconds without a power-up before the next kill is sure to drop one
+export const PITY_TIME = 20000;
+
+// Whether a newly spawned enemy carries a power-up. Elites always do.
+export const rollDrop = (rng: RandomState, archetype: EnemyArchetype) =>
+  archetype.elite || nextRandom(rng) < archetype.drops.chance;
+
+// Whether a destroyed enemy leaves something behind: carriers always do, and
+// so does anything once the player has gone too long without a power-up
+const isDropDue = (world: GameWorld, enemy: Enemy) =>
+  enemy.dropsPowerUp || world.dropPityTimer >= PITY_TIME;
+
+// Drop a power-up from a destroyed enemy's table where it was. Enemies with
+// an empty table drop from the shared spawn weights.
+export const dropLoot = (world: GameWorld, enemy: Enemy) => {
+  if (!isDropDue(world, enemy)) return;
+
+  const { table } = getArchetype(enemy.type).drops;
+  const type =
+    table.length > 0
+      ? randomWeighted(world.rng, table, (entry) => entry.weight).powerUp
+      : undefined;
+  dropPowerUp(world, enemy, type);
+};
@@ -0,0 +1,133 @@
+import { ENEMY_BEHAVIORS } from "./behaviors";
+import {
+  ENEMY_ARCHETYPES,
+  EnemyArchetype,
+  getArchetype,
+  getSpawnWeight,
+} from "./enemyArchetypes";
+import { rollDrop } from "./drops";
+import { getFireInterval } from "./enemyBullets";
+import { createId } from "./ids";
+import { acquire, removeWhere } from "./pool";
+import { nextRandom, randomWeighted, RandomState } from "./random";
+import { Enemy, GameWorld } from "./types";
+
+// Optional fields cleared when an enemy object is reused
+const BLANK_ENEMY: Partial<Enemy> = {
+  dropsPowerUp: undefined,
+  velocityX: undefined,
+  velocityY: undefined,
+  prevX: undefined,
+  prevY: undefined,
+};
+
+// Milliseconds between random spawns, shortening as the stage goes up
+export const getSpawnInterval = (stage: number) =>
+  Math.max(2000 - stage * 100, 500);
+
+// Spawn a random enemy every interval
+export const updateEnemySpawning = (
+  world: GameWorld,
+  deltaTime: number,
+  spawnInterval = getSpawnInterval(world.stage),
+) => {
+  world.enemySpawnTimer += deltaTime;
+
+  if (world.enemySpawnTimer >= spawnInterval) {
+    spawnEnemy(world);
+    world.enemySpawnTimer = 0;
+  }
+};
+
+// Take an enemy from the pool and give it fresh properties. Its behavior
+// starts from where it is placed.
+export const acquireEnemy = (
+  world: GameWorld,
+  properties: Omit<
+    Enemy,
+    "prevX" | "prevY" | "age" | "originX" | "originY" | "volleys"
+  >,
+) => {
+  const enemy = acquire(world.pools.enemies);
+  Object.assign(enemy, BLANK_ENEMY, properties, {
+    age: 0,
+    originX: properties.x,
+    originY: properties.y,
+    volleys: 0,
+  });
+  world.enemies.push(enemy);
+  return enemy;
+};
+
+// Spawn a new enemy
+export const spawnEnemy = (world: GameWorld) => {
+  if (!world.width) return;
+
+  // Pick what to spawn based on stage and randomness
+  const archetype = pickEnemyArchetype(world.rng, world.stage);
+  const x = nextRandom(world.rng) * (world.width - archetype.width);
+  spawnArchetype(world, archetype, x, -archetype.height);
+};
+
+// Create an enemy from its archetype at the given position, optionally
+// moving differently from the rest of its kind
+export const spawnArchetype = (
+  world: GameWorld,
+  archetype: EnemyArchetype,
+  x: number,
+  y: number,
+  behavior = archetype.behavior,
+) =>
+  acquireEnemy(world, {
+    id: createId(world, "enemy"),
+    x,
+    y,
+    type: archetype.id,
+    health: archetype.health,
+    speed: archetype.speed,
+    width: archetype.width,
+    height: archetype.height,
+    behavior,
+    // Strafing and looping enemies head towards the middle first
+    direction: x + archetype.width / 2 < world.width / 2 ? 1 : -1,
+    // Stagger first volleys so a wave doesn't fire in unison
+    fireTimer: archetype.weapon
+      ? getFireInterval(archetype.weapon, world.stage) *
+        (0.5 + nextRandom(world.rng) * 0.5)
+      : 0,
+    // Carriers leave a power-up behind when destroyed
+    dropsPowerUp: rollDrop(world.rng, archetype),
+  });
+
+// Choose an enemy archetype using the spawn weights for the stage
+export const pickEnemyArchetype = (rng: RandomState, stage: number) => {
+  const candidates = ENEMY_ARCHETYPES.filter(
+    (archetype) => getSpawnWeight(archetype, stage) > 0,
+  );
+  return randomWeighted(rng, candidates, (archetype) =>
+    getSpawnWeight(archetype, stage),
+  );
+};
+
+// Points awarded for destroying an enemy
+export const getEnemyPoints = (enemy: Enemy) => getArchetype(enemy.type).score;
+
+// Move each enemy with its behavior
+export const moveEnemies = (world: GameWorld, deltaTime: number) => {
+  removeWhere(
+    world.enemies,
+    (enemy) => {
+      enemy.age += deltaTime;
+      ENEMY_BEHAVIORS[enemy.behavior](enemy, world, deltaTime);
+
+      // Check if enemy reached bottom
+      if (enemy.y > world.height) {
+        world.events.push({ type: "enemyReachedBottom", enemy });
+        return true; // Remove this enemy
+      }
+
+      return false;
+    },
+    world.pools.enemies,
+  );
+};
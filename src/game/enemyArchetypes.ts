@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { ENEMY_BEHAVIOR_IDS } from "./behaviors";
+import { hasBulletPattern } from "./bulletPatterns";
+import { parseData } from "./data";
+import enemyData from "./enemies.json";
+import { POWER_UP_TYPES } from "./powerUps";
+import { EnemyBehaviorId, PowerUp } from "./types";
+
+// What an enemy shoots and how often
+export interface EnemyWeapon {
+  pattern: string; // Bullet pattern id
+  interval: number; // milliseconds between volleys on the first stage
+  fromStage?: number; // First stage it fires on, 1 if not given
+}
+
+// Everything that makes one kind of enemy different from another. New drones
+// are added in enemies.json; nothing else needs to change.
+export interface EnemyArchetype {
+  id: string;
+  name: string;
+  health: number;
+  speed: number; // px per ms
+  width: number;
+  height: number;
+  score: number;
+  elite?: boolean; // Always carries a power-up
+  // Weight from each stage onwards; the latest entry reached applies
+  spawnWeights: { fromStage: number; weight: number }[];
+  drops: {
+    chance: number; // 0 to 1
+    table: { powerUp: PowerUp["type"]; weight: number }[];
+  };
+  sprite: {
+    color: string;
+    image?: string;
+  };
+  behavior: EnemyBehaviorId;
+  weapon?: EnemyWeapon;
+}
+
+const archetypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  health: z.number().int().positive(),
+  speed: z.number().positive(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  score: z.number().int().nonnegative(),
+  elite: z.boolean().optional(),
+  spawnWeights: z
+    .array(
+      z.object({
+        fromStage: z.number().int().positive(),
+        weight: z.number().nonnegative(),
+      }),
+    )
+    .min(1),
+  drops: z.object({
+    chance: z.number().min(0).max(1),
+    table: z.array(
+      z.object({
+        powerUp: z.enum(
+          POWER_UP_TYPES as [PowerUp["type"], ...PowerUp["type"][]],
+        ),
+        weight: z.number().positive(),
+      }),
+    ),
+  }),
+  sprite: z.object({
+    color: z.string(),
+    image: z.string().url().optional(),
+  }),
+  behavior: z.enum(
+    ENEMY_BEHAVIOR_IDS as [EnemyBehaviorId, ...EnemyBehaviorId[]],
+  ),
+  weapon: z
+    .object({
+      pattern: z.string().refine(hasBulletPattern, "Unknown bullet pattern"),
+      interval: z.number().positive(),
+      fromStage: z.number().int().positive().optional(),
+    })
+    .optional(),
+});
+
+const registrySchema = z
+  .array(archetypeSchema)
+  .min(1)
+  .refine(
+    (archetypes) =>
+      new Set(archetypes.map((archetype) => archetype.id)).size ===
+      archetypes.length,
+    "Enemy archetype ids must be unique",
+  );
+
+// Check enemy definitions, throwing with the problems found if they're invalid
+export const parseEnemyArchetypes = (data: unknown) =>
+  parseData<EnemyArchetype[]>(registrySchema, data, "enemy archetypes");
+
+export const ENEMY_ARCHETYPES = parseEnemyArchetypes(enemyData);
+
+const archetypesById = new Map(
+  ENEMY_ARCHETYPES.map((archetype) => [archetype.id, archetype]),
+);
+
+// Whether an archetype with this id exists
+export const hasArchetype = (type: string) => archetypesById.has(type);
+
+// Look up an enemy's archetype by its type
+export const getArchetype = (type: string) => {
+  const archetype = archetypesById.get(type);
+  if (!archetype) throw new Error(`Unknown enemy archetype: ${type}`);
+  return archetype;
+};
+
+// How likely an archetype is to spawn on a stage, 0 if it doesn't yet
+export const getSpawnWeight = (archetype: EnemyArchetype, stage: number) => {
+  let weight = 0;
+  let latestStage = 0;
+  for (const step of archetype.spawnWeights) {
+    if (stage >= step.fromStage && step.fromStage >= latestStage) {
+      weight = step.weight;
+      latestStage = step.fromStage;
+    }
+  }
+  return weight;
+};
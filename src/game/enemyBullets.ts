@@ -0,0 +1,134 @@
+import { BulletPattern, getBulletPattern } from "./bulletPatterns";
+import { EnemyWeapon, getArchetype } from "./enemyArchetypes";
+import { toRadians } from "./geometry";
+import { createId } from "./ids";
+import { acquire, removeWhere } from "./pool";
+import { Box, Enemy, EnemyBullet, GameWorld } from "./types";
+
+const DENSITY_PER_STAGE = 0.12; // extra fire rate for each stage after the first
+const MAX_DENSITY = 2.5; // fire rate multiplier never goes above this
+
+// Optional fields cleared when a bullet object is reused
+const BLANK_BULLET: Partial<EnemyBullet> = {
+  prevX: undefined,
+  prevY: undefined,
+};
+
+// How much faster enemies fire on a stage, 1 on the first
+export const getFireDensity = (stage: number) =>
+  Math.min(1 + (stage - 1) * DENSITY_PER_STAGE, MAX_DENSITY);
+
+// Milliseconds between volleys from a weapon on a stage
+export const getFireInterval = (weapon: EnemyWeapon, stage: number) =>
+  weapon.interval / getFireDensity(stage);
+
+// The enemy's weapon if it fires on this stage, otherwise null
+export const getEnemyWeapon = (enemy: Enemy, stage: number) => {
+  const { weapon } = getArchetype(enemy.type);
+  return weapon && stage >= (weapon.fromStage ?? 1) ? weapon : null;
+};
+
+// Directions of the bullets in one volley from a shooter, in radians
+// clockwise from the right, so straight down is π/2. Spirals turn with the
+// number of volleys the shooter has already fired.
+export const getVolleyAngles = (
+  pattern: BulletPattern,
+  shooter: Box,
+  volleys: number,
+  world: GameWorld,
+) => {
+  const angles: number[] = [];
+
+  switch (pattern.kind) {
+    case "aimed":
+    case "spread": {
+      const { player } = world;
+      const centre =
+        pattern.kind === "aimed"
+          ? Math.atan2(
+              player.y + player.height / 2 - (shooter.y + shooter.height / 2),
+              player.x + player.width / 2 - (shooter.x + shooter.width / 2),
+            )
+          : Math.PI / 2;
+      for (let i = 0; i < pattern.count; i++) {
+        angles.push(
+          centre + (i - (pattern.count - 1) / 2) * toRadians(pattern.spread),
+        );
+      }
+      break;
+    }
+    case "ring":
+    case "spiral": {
+      const offset =
+        pattern.kind === "spiral"
+          ? toRadians((pattern.rotation ?? 0) * volleys)
+          : 0;
+      for (let i = 0; i < pattern.count; i++) {
+        angles.push(offset + (i / pattern.count) * 2 * Math.PI);
+      }
+      break;
+    }
+  }
+
+  return angles;
+};
+
+// Fire one volley of a pattern from the shooter's centre
+export const fireVolley = (
+  world: GameWorld,
+  shooter: Box,
+  volleys: number,
+  pattern: BulletPattern,
+) => {
+  getVolleyAngles(pattern, shooter, volleys, world).forEach((angle) => {
+    const bullet = acquire(world.pools.enemyBullets);
+    Object.assign(bullet, BLANK_BULLET, {
+      id: createId(world, "enemyBullet"),
+      x: shooter.x + shooter.width / 2 - pattern.size / 2,
+      y: shooter.y + shooter.height / 2 - pattern.size / 2,
+      velocityX: Math.cos(angle) * pattern.speed,
+      velocityY: Math.sin(angle) * pattern.speed,
+      width: pattern.size,
+      height: pattern.size,
+      pattern: pattern.id,
+    });
+    world.enemyBullets.push(bullet);
+  });
+};
+
+// Count down each armed enemy's fire timer and fire when it runs out
+export const updateEnemyFiring = (world: GameWorld, deltaTime: number) => {
+  world.enemies.forEach((enemy) => {
+    const weapon = getEnemyWeapon(enemy, world.stage);
+    if (!weapon) return;
+
+    enemy.fireTimer -= deltaTime;
+    if (enemy.fireTimer > 0) return;
+    enemy.fireTimer += getFireInterval(weapon, world.stage);
+
+    // Only fire from inside the playfield and from above the player
+    if (enemy.y < 0 || enemy.y + enemy.height > world.player.y) return;
+
+    fireVolley(world, enemy, enemy.volleys, getBulletPattern(weapon.pattern));
+    enemy.volleys += 1;
+  });
+};
+
+// Move enemy bullets along their heading and drop those that leave the playfield
+export const moveEnemyBullets = (world: GameWorld, deltaTime: number) => {
+  removeWhere(
+    world.enemyBullets,
+    (bullet) => {
+      bullet.x += bullet.velocityX * deltaTime;
+      bullet.y += bullet.velocityY * deltaTime;
+
+      return (
+        bullet.x < -bullet.width ||
+        bullet.x > world.width ||
+        bullet.y < -bullet.height ||
+        bullet.y > world.height
+      );
+    },
+    world.pools.enemyBullets,
+  );
+};
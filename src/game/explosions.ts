@@ -0,0 +1,41 @@
+import { removeWhere } from "./pool";
+import { Box, GameWorld } from "./types";
+
+export const EXPLOSION_TIME = 300; // milliseconds a blast stays on screen
+const EDGE_DAMAGE = 0.3; // share of the damage dealt at the edge of the radius
+
+// Distance from a point to the nearest part of a box, 0 inside it
+export const distanceToBox = (x: number, y: number, box: Box) =>
+  Math.hypot(
+    Math.max(box.x - x, 0, x - (box.x + box.width)),
+    Math.max(box.y - y, 0, y - (box.y + box.height)),
+  );
+
+// Damage at a distance from the blast, falling off towards the edge.
+// Nothing past the radius is hurt.
+export const getSplashDamage = (
+  damage: number,
+  distance: number,
+  radius: number,
+) =>
+  distance > radius
+    ? 0
+    : damage * (1 - (1 - EDGE_DAMAGE) * (distance / radius));
+
+// Show a blast at a point
+export const addExplosion = (
+  world: GameWorld,
+  x: number,
+  y: number,
+  radius: number,
+) => {
+  world.explosions.push({ x, y, radius, age: 0 });
+};
+
+// Age the blasts and drop those that have faded
+export const updateExplosions = (world: GameWorld, deltaTime: number) => {
+  removeWhere(world.explosions, (explosion) => {
+    explosion.age += deltaTime;
+    return explosion.age >= EXPLOSION_TIME;
+  });
+};
@@ -0,0 +1,2 @@
+// Angles in data files are given in degrees; the maths wants radians
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
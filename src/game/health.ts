@@ -0,0 +1,50 @@
+import { GameWorld, Player } from "./types";
+
+export const PLAYER_HEALTH = 3; // health a run starts with
+
+// What the HUD shows of the player's health
+export interface HealthStatus {
+  health: number;
+  maxHealth: number;
+}
+
+// Whether the player has run out of health. Nothing happens in the world after that.
+export const isGameOver = (world: GameWorld) => world.gameOverTick !== null;
+
+// Restore health, never past the maximum
+export const healPlayer = (player: Player, amount: number) => {
+  player.health = Math.min(player.health + amount, player.maxHealth);
+};
+
+// Raise the maximum, filling the new health straight away
+export const raiseMaxHealth = (player: Player, amount: number) => {
+  player.maxHealth += amount;
+  player.health += amount;
+};
+
+// Take a point of health for each hit this step, ending the run when it runs out
+export const updateHealth = (world: GameWorld) => {
+  const { player } = world;
+  world.events.forEach((event) => {
+    switch (event.type) {
+      case "enemyReachedBottom":
+      case "playerHit":
+      case "playerShot":
+        player.health = Math.max(player.health - 1, 0);
+        break;
+    }
+  });
+
+  if (player.health === 0 && !isGameOver(world)) {
+    world.gameOverTick = world.tick;
+    world.events.push({ type: "gameOver" });
+  }
+};
+
+export const getHealthStatus = (world: GameWorld): HealthStatus => ({
+  health: world.player.health,
+  maxHealth: world.player.maxHealth,
+});
+
+export const isSameHealthStatus = (a: HealthStatus, b: HealthStatus) =>
+  a.health === b.health && a.maxHealth === b.maxHealth;
@@ -0,0 +1,6 @@
+import { GameWorld } from "./types";
+
+// Create a unique id for a new entity. Ids come from a counter so that a
+// replayed run produces the same ids.
+export const createId = (world: GameWorld, prefix: string) =>
+  `${prefix}-${++world.lastId}`;
@@ -0,0 +1,69 @@
+export const FIXED_TIMESTEP = 1000 / 60; // 60 Hz simulation
+export const MAX_STEPS_PER_FRAME = 5; // Cap on catch-up after a stall
+
+export interface FixedClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+interface Positioned {
+  x: number;
+  y: number;
+  prevX?: number;
+  prevY?: number;
+}
+
+// Create a clock that has not seen a frame yet
+export const createClock = (): FixedClock => ({
+  lastTime: null,
+  accumulator: 0,
+});
+
+// Feed a frame timestamp into the clock and run as many fixed ticks as the
+// elapsed real time allows. Returns the interpolation alpha (0-1) between the
+// previous and the current simulation state for the renderer. A speed other
+// than 1 plays the simulation faster or slower than real time.
+export const advanceClock = (
+  clock: FixedClock,
+  timestamp: number,
+  tick: (deltaTime: number) => void,
+  speed = 1,
+) => {
+  if (clock.lastTime === null) {
+    clock.lastTime = timestamp;
+    return 0;
+  }
+
+  clock.accumulator += (timestamp - clock.lastTime) * speed;
+  clock.lastTime = timestamp;
+
+  // Drop time we can't catch up on instead of teleporting everything
+  const maxAccumulated = FIXED_TIMESTEP * MAX_STEPS_PER_FRAME * speed;
+  if (clock.accumulator > maxAccumulated) {
+    clock.accumulator = maxAccumulated;
+  }
+
+  while (clock.accumulator >= FIXED_TIMESTEP) {
+    tick(FIXED_TIMESTEP);
+    clock.accumulator -= FIXED_TIMESTEP;
+  }
+
+  return clock.accumulator / FIXED_TIMESTEP;
+};
+
+// Remember where an entity was before a tick moves it
+export const savePreviousPosition = (entity: Positioned) => {
+  entity.prevX = entity.x;
+  entity.prevY = entity.y;
+};
+
+// Position to draw an entity at, blended between the last two ticks
+export const interpolate = (entity: Positioned, alpha: number) => {
+  const prevX = entity.prevX ?? entity.x;
+  const prevY = entity.prevY ?? entity.y;
+
+  return {
+    x: prevX + (entity.x - prevX) * alpha,
+    y: prevY + (entity.y - prevY) * alpha,
+  };
+};
@@ -0,0 +1,41 @@
+// Recycles entity objects so busy scenes don't allocate every frame. Entities
+// handed back to a pool get reused, so events only reference them safely
+// until the next step.
+export interface Pool<T> {
+  free: T[];
+  create: () => T;
+}
+
+export const createPool = <T>(create: () => T): Pool<T> => ({
+  free: [],
+  create,
+});
+
+// Take an object from the pool, or make a new one if it's empty
+export const acquire = <T>(pool: Pool<T>): T =>
+  pool.free.pop() ?? pool.create();
+
+// Hand an object back to the pool
+export const release = <T>(pool: Pool<T>, item: T) => {
+  pool.free.push(item);
+};
+
+// Remove matching items in place, keeping order, and release them to the pool
+export const removeWhere = <T>(
+  items: T[],
+  shouldRemove: (item: T) => boolean,
+  pool?: Pool<T>,
+) => {
+  let kept = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (shouldRemove(item)) {
+      if (pool) release(pool, item);
+    } else {
+      items[kept++] = item;
+    }
+  }
+
+  items.length = kept;
+};
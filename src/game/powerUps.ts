@@ -0,0 +1,320 @@
+import { addBomb } from "./bombs";
+import { healPlayer } from "./health";
+import { createId } from "./ids";
+import { removeWhere } from "./pool";
+import { nextRandom, randomWeighted, RandomState } from "./random";
+import { Enemy, GameWorld, Player, PowerUp } from "./types";
+
+export type TimedPowerUpType =
+  | "rapidFire"
+  | "shield"
+  | "multiShot"
+  | "magnet"
+  | "slowMotion"
+  | "drones"
+  | "piercing";
+
+export const POWER_UP_TYPES: PowerUp["type"][] = [
+  "rapidFire",
+  "shield",
+  "multiShot",
+  "bomb",
+  "magnet",
+  "slowMotion",
+  "drones",
+  "piercing",
+  "health",
+];
+
+// How often each power-up turns up relative to the others
+export const POWER_UP_WEIGHTS: Record<PowerUp["type"], number> = {
+  rapidFire: 5,
+  shield: 4,
+  multiShot: 4,
+  bomb: 2,
+  magnet: 3,
+  slowMotion: 2,
+  drones: 2,
+  piercing: 3,
+  health: 1, // Rare
+};
+
+const MAGNET_RADIUS = 250; // px from the player that power-ups are pulled in
+const MAGNET_SPEED = 0.4; // px per ms
+const SLOW_MOTION_SCALE = 0.5; // how fast enemies and their bullets run
+const HEALTH_RESTORE = 1; // health a health pickup gives back
+
+// How a timed power-up lasts. Picking it up again while it's active either
+// refreshes it to its full duration, extends it by another duration up to
+// maxDuration, or adds a stack up to maxStacks and refreshes it.
+export interface TimedPowerUpDefinition {
+  name: string;
+  icon: string; // HUD icon name
+  duration: number; // milliseconds
+  pickup: "refresh" | "extend" | "stack";
+  maxDuration?: number;
+  maxStacks?: number;
+}
+
+export const TIMED_POWER_UPS: Record<TimedPowerUpType, TimedPowerUpDefinition> =
+  {
+    rapidFire: {
+      name: "Rapid Fire",
+      icon: "zap",
+      duration: 10000,
+      pickup: "refresh",
+    },
+    shield: {
+      name: "Shield",
+      icon: "shield",
+      duration: 15000,
+      pickup: "extend",
+      maxDuration: 30000,
+    },
+    // Each stack adds a projectile to every shot
+    multiShot: {
+      name: "Multi Shot",
+      icon: "layers",
+      duration: 8000,
+      pickup: "stack",
+      maxStacks: 3,
+    },
+    magnet: {
+      name: "Magnet",
+      icon: "magnet",
+      duration: 12000,
+      pickup: "extend",
+      maxDuration: 24000,
+    },
+    slowMotion: {
+      name: "Slow Motion",
+      icon: "hourglass",
+      duration: 6000,
+      pickup: "refresh",
+    },
+    drones: {
+      name: "Drones",
+      icon: "orbit",
+      duration: 10000,
+      pickup: "refresh",
+    },
+    piercing: {
+      name: "Piercing",
+      icon: "chevronsUp",
+      duration: 10000,
+      pickup: "extend",
+      maxDuration: 20000,
+    },
+  };
+
+// A timed power-up as the HUD shows it
+export interface ActivePowerUp {
+  id: TimedPowerUpType;
+  name: string;
+  icon: string;
+  duration: number; // milliseconds
+  timeRemaining: number; // milliseconds, rounded up to a tenth of a second
+  stacks: number;
+}
+
+// Handle power-up spawning logic
+export const updatePowerUpSpawning = (world: GameWorld, deltaTime: number) => {
+  world.powerUpSpawnTimer += deltaTime;
+  world.dropPityTimer += deltaTime;
+  if (world.powerUpSpawnTimer >= 15000) {
+    // Every 15 seconds
+    if (nextRandom(world.rng) < 0.3) {
+      // 30% chance
+      spawnPowerUp(world);
+    }
+    world.powerUpSpawnTimer = 0;
+  }
+};
+
+// Spawn a power-up
+export const spawnPowerUp = (world: GameWorld) => {
+  if (!world.width) return;
+
+  // Get power-up configuration
+  const powerUpConfig = getPowerUpConfig(world.rng);
+
+  // Create the power-up with the determined configuration
+  const newPowerUp: PowerUp = {
+    id: createId(world, "powerup"),
+    x: nextRandom(world.rng) * (world.width - powerUpConfig.width),
+    y: -powerUpConfig.height,
+    type: powerUpConfig.type,
+    speed: powerUpConfig.speed,
+    width: powerUpConfig.width,
+    height: powerUpConfig.height,
+  };
+
+  world.powerUps.push(newPowerUp);
+  world.dropPityTimer = 0;
+};
+
+// Pick a power-up using the shared spawn weights
+export const pickPowerUpType = (rng: RandomState) =>
+  randomWeighted(rng, POWER_UP_TYPES, (type) => POWER_UP_WEIGHTS[type]);
+
+// Get power-up configuration, of a random type unless one is given
+export const getPowerUpConfig = (
+  rng: RandomState,
+  type = pickPowerUpType(rng),
+) => {
+  const width = 30;
+  const height = 30;
+  const speed = 0.05;
+
+  return { type, width, height, speed };
+};
+
+// Run down the timed power-ups, switching off those that expire
+export const updatePowerUps = (player: Player, deltaTime: number) => {
+  (Object.keys(TIMED_POWER_UPS) as TimedPowerUpType[]).forEach((type) => {
+    const powerUp = player.powerUps[type];
+    if (!powerUp?.active) return;
+
+    powerUp.remaining -= deltaTime;
+    if (powerUp.remaining <= 0) {
+      powerUp.active = false;
+      powerUp.remaining = 0;
+      powerUp.stacks = 0;
+    }
+  });
+};
+
+// Start a timed power-up, or apply its pickup rule if it's already running
+const activatePowerUp = (player: Player, type: TimedPowerUpType) => {
+  const definition = TIMED_POWER_UPS[type];
+  const current = player.powerUps[type];
+  if (!current?.active) {
+    player.powerUps[type] = {
+      active: true,
+      duration: definition.duration,
+      remaining: definition.duration,
+      stacks: 1,
+    };
+    return;
+  }
+
+  switch (definition.pickup) {
+    case "refresh":
+      current.remaining = current.duration = definition.duration;
+      break;
+    case "extend":
+      current.remaining = Math.min(
+        current.remaining + definition.duration,
+        definition.maxDuration ?? Infinity,
+      );
+      current.duration = Math.max(current.duration, current.remaining);
+      break;
+    case "stack":
+      current.stacks = Math.min(
+        current.stacks + 1,
+        definition.maxStacks ?? Infinity,
+      );
+      current.remaining = current.duration = definition.duration;
+      break;
+  }
+};
+
+// Milliseconds rounded up to a tenth of a second, ignoring rounding error
+// from the fixed timestep
+const toTenths = (milliseconds: number) =>
+  Math.ceil(Math.round(milliseconds) / 100) * 100;
+
+// The timed power-ups running now, in a fixed order
+export const getActivePowerUps = (player: Player): ActivePowerUp[] =>
+  (Object.keys(TIMED_POWER_UPS) as TimedPowerUpType[])
+    .filter((type) => player.powerUps[type]?.active)
+    .map((type) => {
+      const { name, icon } = TIMED_POWER_UPS[type];
+      const { duration, remaining, stacks } = player.powerUps[type];
+      return {
+        id: type,
+        name,
+        icon,
+        duration: toTenths(duration),
+        timeRemaining: toTenths(remaining),
+        stacks,
+      };
+    });
+
+export const isSameActivePowerUps = (a: ActivePowerUp[], b: ActivePowerUp[]) =>
+  a.length === b.length &&
+  a.every(
+    (powerUp, index) =>
+      powerUp.id === b[index].id &&
+      powerUp.duration === b[index].duration &&
+      powerUp.timeRemaining === b[index].timeRemaining &&
+      powerUp.stacks === b[index].stacks,
+  );
+
+// Leave a power-up where an enemy was destroyed, to drift down from there
+export const dropPowerUp = (
+  world: GameWorld,
+  enemy: Enemy,
+  type?: PowerUp["type"],
+) => {
+  const config = getPowerUpConfig(world.rng, type);
+  const { width, height, speed } = config;
+  world.powerUps.push({
+    id: createId(world, "powerup"),
+    x: enemy.x + enemy.width / 2 - width / 2,
+    y: enemy.y + enemy.height / 2 - height / 2,
+    type: config.type,
+    speed,
+    width,
+    height,
+  });
+  world.dropPityTimer = 0;
+};
+
+// How fast enemies and their bullets run, slower in slow motion
+export const getTimeScale = (player: Player) =>
+  player.powerUps.slowMotion?.active ? SLOW_MOTION_SCALE : 1;
+
+// Draw a power-up towards the player if the magnet is on and it's in reach.
+// Returns whether it was pulled.
+const pullPowerUp = (world: GameWorld, powerUp: PowerUp, deltaTime: number) => {
+  const { player } = world;
+  if (!player.powerUps.magnet?.active) return false;
+
+  const dx = player.x + player.width / 2 - (powerUp.x + powerUp.width / 2);
+  const dy = player.y + player.height / 2 - (powerUp.y + powerUp.height / 2);
+  const distance = Math.hypot(dx, dy);
+  if (distance > MAGNET_RADIUS || distance === 0) return false;
+
+  const step = Math.min(MAGNET_SPEED * deltaTime, distance);
+  powerUp.x += (dx / distance) * step;
+  powerUp.y += (dy / distance) * step;
+  return true;
+};
+
+// Move power-ups based on their speed
+export const movePowerUps = (world: GameWorld, deltaTime: number) => {
+  removeWhere(world.powerUps, (powerUp) => {
+    // Move power-up down unless the magnet has it
+    if (!pullPowerUp(world, powerUp, deltaTime)) {
+      powerUp.y += powerUp.speed * deltaTime;
+    }
+
+    // Remove if off screen
+    return powerUp.y > world.height;
+  });
+};
+
+// Apply power-up effect to player
+export const applyPowerUp = (world: GameWorld, type: PowerUp["type"]) => {
+  if (type === "bomb") {
+    // Kept until the player sets it off
+    addBomb(world.player);
+  } else if (type === "health") {
+    healPlayer(world.player, HEALTH_RESTORE);
+  } else {
+    activatePowerUp(world.player, type);
+  }
+
+  world.events.push({ type: "powerUpCollected", powerUpType: type });
+};
@@ -0,0 +1,280 @@
+import { toRadians } from "./geometry";
+import { createId } from "./ids";
+import { acquire, removeWhere } from "./pool";
+import { BulletType, Enemy, GameInput, GameWorld, Projectile } from "./types";
+import { getReduction, getStatBonus } from "./upgrades";
+import { WEAPON_PROFILES, WeaponProfile } from "./weapons";
+
+export const MAX_CHARGE_LEVEL = 5; // Maximum charge level
+export const CHARGE_TIME_PER_LEVEL = 300; // 300ms per charge level
+const SPECIAL_COOLDOWN = 1000; // milliseconds after a special shot
+const PIERCING_BONUS = 2; // extra hits every shot survives with piercing rounds
+
+// In selection order; replays also store bullet types by this index
+export const BULLET_TYPES: BulletType[] = [
+  "standard",
+  "laser",
+  "plasma",
+  "explosive",
+];
+
+// The bullet type before or after the given one, wrapping around
+export const cycleBulletType = (current: BulletType, direction: 1 | -1) =>
+  BULLET_TYPES[
+    (BULLET_TYPES.indexOf(current) + direction + BULLET_TYPES.length) %
+      BULLET_TYPES.length
+  ];
+
+// Optional fields cleared when a projectile object is reused
+const BLANK_PROJECTILE: Partial<Projectile> = {
+  isSpecial: undefined,
+  isCharged: undefined,
+  chargeLevel: undefined,
+  damage: undefined,
+  bulletType: undefined,
+  piercing: undefined,
+  pierceLimit: undefined,
+  hitIds: undefined,
+  velocityX: undefined,
+  homing: undefined,
+  splashRadius: undefined,
+  kills: undefined,
+  prevX: undefined,
+  prevY: undefined,
+};
+
+// Take a projectile from the pool and give it fresh properties
+export const acquireProjectile = (
+  world: GameWorld,
+  properties: Omit<Projectile, "prevX" | "prevY">,
+) => {
+  const projectile = acquire(world.pools.projectiles);
+  Object.assign(projectile, BLANK_PROJECTILE, properties);
+  world.projectiles.push(projectile);
+  return projectile;
+};
+
+const MAX_DRIFT = 0.35; // sideways speed of a homing shot, as a share of its speed
+
+// The nearest enemy still ahead of a projectile, or null if there isn't one
+const findHomingTarget = (world: GameWorld, projectile: Projectile) => {
+  let target: Enemy | null = null;
+  let nearest = Infinity;
+
+  for (const enemy of world.enemies) {
+    if (enemy.y + enemy.height > projectile.y) continue;
+
+    const distance = Math.hypot(
+      enemy.x + enemy.width / 2 - (projectile.x + projectile.width / 2),
+      enemy.y - projectile.y,
+    );
+    if (distance < nearest) {
+      nearest = distance;
+      target = enemy;
+    }
+  }
+
+  return target;
+};
+
+// Nudge a homing projectile's sideways speed towards the nearest enemy ahead
+const steerProjectile = (
+  world: GameWorld,
+  projectile: Projectile,
+  deltaTime: number,
+) => {
+  const target = findHomingTarget(world, projectile);
+  if (!target) return;
+
+  const offset =
+    target.x + target.width / 2 - (projectile.x + projectile.width / 2);
+  const maxDrift = projectile.speed * MAX_DRIFT;
+  projectile.velocityX = Math.min(
+    Math.max(
+      (projectile.velocityX ?? 0) +
+        Math.sign(offset) * projectile.homing * deltaTime,
+      -maxDrift,
+    ),
+    maxDrift,
+  );
+};
+
+// Move projectiles based on their speed
+export const moveProjectiles = (world: GameWorld, deltaTime: number) => {
+  removeWhere(
+    world.projectiles,
+    (projectile) => {
+      if (projectile.homing) steerProjectile(world, projectile, deltaTime);
+
+      // Move projectile up, and sideways if it was fanned out or is homing
+      projectile.y -= projectile.speed * deltaTime;
+      projectile.x += (projectile.velocityX ?? 0) * deltaTime;
+
+      // Remove if off screen
+      return (
+        projectile.y < -projectile.height ||
+        projectile.x < -projectile.width ||
+        projectile.x > world.width
+      );
+    },
+    world.pools.projectiles,
+  );
+};
+
+// Milliseconds before the player can fire again after a shot
+export const getShotCooldown = (
+  profile: WeaponProfile,
+  chargeLevel: number,
+  isSpecialFire: boolean,
+  rapidFire: boolean,
+) => {
+  if (isSpecialFire) return SPECIAL_COOLDOWN;
+  // Charged shots take longer to recover from, more so for heavy ammo
+  if (chargeLevel > 0)
+    return profile.cooldown + chargeLevel * profile.chargeCooldown;
+  return rapidFire ? profile.rapidFireCooldown : profile.cooldown;
+};
+
+// Fire a projectile from the player's position. Returns whether a shot was fired.
+export const fireProjectile = (
+  world: GameWorld,
+  isSpecialFire = false,
+  chargeLevel = 0,
+) => {
+  const { player } = world;
+  if (player.currentCooldown > 0) return false;
+
+  const bulletType = player.currentBulletType;
+  const profile = WEAPON_PROFILES[bulletType];
+  const isChargedShot = !isSpecialFire && chargeLevel > 0;
+  const rapidFire = Boolean(player.powerUps.rapidFire?.active);
+  // Special fire brings out each type's mechanics as if fully charged
+  const mechanicsLevel = isSpecialFire ? MAX_CHARGE_LEVEL : chargeLevel;
+
+  let width = profile.width;
+  let height = profile.height;
+  let speed = profile.speed;
+  let damage = profile.damage;
+
+  // Apply modifiers for special fire or charged shots
+  if (isSpecialFire) {
+    width *= 2;
+    height *= 1.5;
+    speed = 0.7;
+    damage = 3;
+  } else if (isChargedShot) {
+    width += chargeLevel * profile.charge.width;
+    height += chargeLevel * profile.charge.height;
+    speed += chargeLevel * profile.charge.speed;
+    damage += chargeLevel * profile.charge.damage;
+  }
+
+  // Apply rapid fire bonus if active
+  if (rapidFire) {
+    speed = Math.min(speed * 1.4, 1.0); // Cap at 1.0
+    damage *= 1.2;
+  }
+
+  // Damage bought in the shop applies on top of everything else
+  damage *= 1 + getStatBonus(player.upgrades, "damage");
+
+  // Base projectile properties
+  const baseProjectile: Omit<Projectile, "prevX" | "prevY"> = {
+    id: createId(world, "projectile"),
+    x: player.x + player.width / 2 - width / 2,
+    y: player.y - height,
+    speed,
+    width,
+    height,
+    isSpecial: isSpecialFire,
+    isCharged: isChargedShot,
+    chargeLevel,
+    damage,
+    bulletType,
+  };
+
+  if (profile.pierce) {
+    baseProjectile.piercing = true;
+    baseProjectile.pierceLimit =
+      profile.pierce.limit + mechanicsLevel * profile.pierce.perCharge;
+  }
+  // Piercing rounds let any shot carry on through a few more enemies
+  if (player.powerUps.piercing?.active) {
+    baseProjectile.piercing = true;
+    baseProjectile.pierceLimit =
+      (baseProjectile.pierceLimit ?? 1) + PIERCING_BONUS;
+  }
+  if (profile.splash) {
+    baseProjectile.splashRadius =
+      profile.splash.radius + mechanicsLevel * profile.splash.perCharge;
+  }
+  if (profile.homing) {
+    baseProjectile.homing =
+      profile.homing.strength + mechanicsLevel * profile.homing.perCharge;
+  }
+
+  // Special fire creates a larger, more powerful projectile
+  // Extra multiShot stacks and barrels from the shop add to its count
+  const { multiShot } = player.powerUps;
+  const count =
+    (multiShot?.active ? profile.multiShot.count + multiShot.stacks - 1 : 1) +
+    getStatBonus(player.upgrades, "projectiles");
+
+  if (isSpecialFire || count === 1) {
+    acquireProjectile(world, baseProjectile);
+  } else {
+    // Side by side and fanned out, in the type's own arrangement
+    const { spacing, spread } = profile.multiShot;
+    for (let index = 0; index < count; index++) {
+      const position = index - (count - 1) / 2;
+      const angle = toRadians(position * spread);
+      acquireProjectile(world, {
+        ...baseProjectile,
+        id: `${baseProjectile.id}-${index + 1}`,
+        x: baseProjectile.x + position * spacing,
+        speed: speed * Math.cos(angle),
+        velocityX: speed * Math.sin(angle),
+      });
+    }
+  }
+
+  player.currentCooldown =
+    getShotCooldown(profile, chargeLevel, isSpecialFire, rapidFire) *
+    getReduction(player.upgrades, "fireRate");
+
+  return true;
+};
+
+// Calculate charge level based on how long the fire button has been held,
+// sooner with charge speed upgrades
+const getChargeLevel = (world: GameWorld) =>
+  Math.min(
+    Math.floor(
+      (world.time - world.chargeStartTime) /
+        (CHARGE_TIME_PER_LEVEL *
+          getReduction(world.player.upgrades, "chargeSpeed")),
+    ),
+    MAX_CHARGE_LEVEL,
+  );
+
+// Start, update and release charge shots from the fire button
+export const updateCharging = (world: GameWorld, input: GameInput) => {
+  if (input.firePressed) {
+    // Start charging
+    world.chargeStartTime = world.time;
+    world.currentChargeLevel = 0;
+  }
+
+  if (world.chargeStartTime === null) return;
+
+  if (input.fireReleased) {
+    // Fire with charge level
+    fireProjectile(world, false, getChargeLevel(world));
+
+    // Reset charge
+    world.chargeStartTime = null;
+    world.currentChargeLevel = 0;
+  } else {
+    world.currentChargeLevel = getChargeLevel(world);
+  }
+};
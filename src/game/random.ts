@@ -0,0 +1,48 @@
+// Small seedable PRNG (mulberry32) so a seed and the same inputs always
+// replay the same run. The state is a plain object so it can live in the world.
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+// Create a generator from a 32-bit seed
+export const createRandom = (seed: number): RandomState => ({
+  seed: seed >>> 0,
+  state: seed >>> 0,
+});
+
+// Pick a seed for runs that don't ask for a specific one
+export const createSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+// Next float in [0, 1)
+export const nextRandom = (rng: RandomState) => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Next integer in [0, max)
+export const randomInt = (rng: RandomState, max: number) =>
+  Math.floor(nextRandom(rng) * max);
+
+// Pick a random item from a list
+export const randomItem = <T>(rng: RandomState, items: T[]) =>
+  items[randomInt(rng, items.length)];
+
+// Pick a random item, each one as likely as its share of the total weight
+export const randomWeighted = <T>(
+  rng: RandomState,
+  items: T[],
+  getWeight: (item: T) => number,
+) => {
+  const total = items.reduce((sum, item) => sum + getWeight(item), 0);
+  let roll = nextRandom(rng) * total;
+
+  for (const item of items) {
+    roll -= getWeight(item);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+};
@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { isGameOver } from "./health";
+import { FIXED_TIMESTEP } from "./loop";
+import { BULLET_TYPES } from "./projectiles";
+import { BulletType, GameEvent, GameInput, GameWorld } from "./types";
+import { getUnlockedBulletTypes, UPGRADES } from "./upgrades";
+import { createInput, createWorld, isInputEmpty, step } from "./world";
+
+export const REPLAY_VERSION = 1;
+
+// Longest run a replay may hold, in ticks (two hours), so a forged replay
+// can't keep the verifier simulating for ever
+const MAX_REPLAY_LENGTH = Math.round(
+  (2 * 60 * 60 * 1000) / FIXED_TIMESTEP,
+);
+
+export interface ReplayFrame {
+  tick: number;
+  input: GameInput;
+}
+
+// Everything needed to re-run a game: how the world started and the input
+// it received on each tick. Ticks without input are not stored.
+export interface Replay {
+  version: number;
+  seed: number;
+  stage: number;
+  bulletType: BulletType;
+  width: number;
+  height: number;
+  unlocked: BulletType[]; // bullet types the player started with
+  length: number; // ticks
+  frames: ReplayFrame[];
+}
+
+// One-shot input flags packed into a single number per frame
+const INPUT_FLAGS = {
+  firePressed: 1,
+  fireReleased: 2,
+  specialFire: 4,
+  shield: 8,
+  bomb: 16,
+} as const;
+
+// Frames are stored as [tick, flags, targetX, bulletType, stage, width,
+// height, moveAxis, purchases] with trailing nulls dropped to keep files
+// small. Purchases are indexes into the upgrade list.
+const encodedFrameSchema = z
+  .array(z.union([z.number(), z.array(z.number().int().min(0))]).nullable())
+  .min(2)
+  .max(9)
+  .refine(
+    (frame) =>
+      typeof frame[0] === "number" &&
+      typeof frame[1] === "number" &&
+      frame.slice(2, 8).every((value) => !Array.isArray(value)) &&
+      (frame[8] === undefined || frame[8] === null || Array.isArray(frame[8])),
+  );
+
+const bulletTypeIndexSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(BULLET_TYPES.length - 1);
+
+const encodedReplaySchema = z.object({
+  v: z.literal(REPLAY_VERSION),
+  seed: z.number().int(),
+  stage: z.number().int().positive(),
+  bulletType: bulletTypeIndexSchema,
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  // Missing from replays recorded before unlocks, when everything was open
+  unlocked: z.array(bulletTypeIndexSchema).optional(),
+  length: z.number().int().nonnegative().max(MAX_REPLAY_LENGTH),
+  frames: z.array(encodedFrameSchema).max(MAX_REPLAY_LENGTH),
+});
+
+// Start recording a run from a freshly created world
+export const createReplay = (world: GameWorld): Replay => ({
+  version: REPLAY_VERSION,
+  seed: world.rng.seed,
+  stage: world.stage,
+  bulletType: world.player.currentBulletType,
+  width: world.width,
+  height: world.height,
+  unlocked: getUnlockedBulletTypes(world.player.upgrades),
+  length: world.tick,
+  frames: [],
+});
+
+// Record the input the world is about to consume on the given tick
+export const recordInput = (replay: Replay, tick: number, input: GameInput) => {
+  replay.length = tick + 1;
+  if (isInputEmpty(input)) return;
+
+  replay.frames.push({
+    tick,
+    input: {
+      ...input,
+      resize: input.resize && { ...input.resize },
+      purchases: [...input.purchases],
+    },
+  });
+};
+
+// Create the world a replay starts from
+export const createReplayWorld = (replay: Replay) =>
+  createWorld({
+    width: replay.width,
+    height: replay.height,
+    stage: replay.stage,
+    bulletType: replay.bulletType,
+    unlocked: replay.unlocked,
+    seed: replay.seed,
+  });
+
+// Look up recorded input by tick
+export const indexReplay = (replay: Replay) =>
+  new Map(replay.frames.map((frame) => [frame.tick, frame.input]));
+
+// Re-run a replay without rendering, up to the given tick or until the
+// player is destroyed, after which nothing more happens
+export const simulateReplay = (
+  replay: Replay,
+  untilTick = replay.length,
+  onEvent: (event: GameEvent) => void = () => {},
+) => {
+  const world = createReplayWorld(replay);
+  const inputs = indexReplay(replay);
+
+  while (
+    world.tick < Math.min(untilTick, replay.length) &&
+    !isGameOver(world)
+  ) {
+    const input = inputs.get(world.tick) ?? createInput();
+    step(world, FIXED_TIMESTEP, input).forEach(onEvent);
+  }
+
+  return world;
+};
+
+const encodeFrame = ({ tick, input }: ReplayFrame) => {
+  let flags = 0;
+  (Object.keys(INPUT_FLAGS) as (keyof typeof INPUT_FLAGS)[]).forEach((key) => {
+    if (input[key]) flags |= INPUT_FLAGS[key];
+  });
+
+  const frame: (number | number[] | null)[] = [
+    tick,
+    flags,
+    input.targetX,
+    input.bulletType === null ? null : BULLET_TYPES.indexOf(input.bulletType),
+    input.stage,
+    input.resize?.width ?? null,
+    input.resize?.height ?? null,
+    input.moveAxis || null,
+    input.purchases.length > 0
+      ? input.purchases.map((id) =>
+          UPGRADES.findIndex((upgrade) => upgrade.id === id),
+        )
+      : null,
+  ];
+
+  while (frame[frame.length - 1] === null) frame.pop();
+  return frame;
+};
+
+const decodeFrame = (frame: (number | number[] | null)[]): ReplayFrame => {
+  const [tick, flags, targetX, bulletType, stage, width, height, moveAxis] =
+    frame as (number | null)[];
+  const purchases = (frame[8] ?? []) as number[];
+
+  return {
+    tick,
+    input: {
+      ...createInput(),
+      targetX: targetX ?? null,
+      moveAxis: moveAxis ?? 0,
+      firePressed: (flags & INPUT_FLAGS.firePressed) !== 0,
+      fireReleased: (flags & INPUT_FLAGS.fireReleased) !== 0,
+      specialFire: (flags & INPUT_FLAGS.specialFire) !== 0,
+      shield: (flags & INPUT_FLAGS.shield) !== 0,
+      bomb: (flags & INPUT_FLAGS.bomb) !== 0,
+      bulletType: BULLET_TYPES[bulletType ?? -1] ?? null,
+      stage: stage ?? null,
+      resize:
+        width === undefined || width === null
+          ? null
+          : { width, height: height ?? 0 },
+      purchases: purchases
+        .filter((index) => index < UPGRADES.length)
+        .map((index) => UPGRADES[index].id),
+    },
+  };
+};
+
+// Serialize a replay into compact JSON
+export const encodeReplay = (replay: Replay) =>
+  JSON.stringify({
+    v: replay.version,
+    seed: replay.seed,
+    stage: replay.stage,
+    bulletType: BULLET_TYPES.indexOf(replay.bulletType),
+    width: replay.width,
+    height: replay.height,
+    unlocked: replay.unlocked.map((bulletType) =>
+      BULLET_TYPES.indexOf(bulletType),
+    ),
+    length: replay.length,
+    frames: replay.frames.map(encodeFrame),
+  });
+
+// Parse a replay file, throwing if it isn't one
+export const decodeReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  const parsed = encodedReplaySchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error("Replay file is invalid or from another version");
+  }
+
+  return {
+    version: parsed.data.v,
+    seed: parsed.data.seed,
+    stage: parsed.data.stage,
+    bulletType: BULLET_TYPES[parsed.data.bulletType],
+    width: parsed.data.width,
+    height: parsed.data.height,
+    unlocked: parsed.data.unlocked
+      ? parsed.data.unlocked.map((index) => BULLET_TYPES[index])
+      : BULLET_TYPES,
+    length: parsed.data.length,
+    frames: parsed.data.frames.map(decodeFrame),
+  };
+};
@@ -0,0 +1,221 @@
+import { removeWhere } from "./pool";
+import { Box, GameEvent, GameWorld, ScoreState, StageScore } from "./types";
+
+export const POPUP_TIME = 900; // milliseconds a score popup stays on screen
+
+// How points are earned. Bonuses are shares of what the enemy is worth on
+// its own and aren't multiplied by the combo.
+export const SCORING_RULES = {
+  comboWindow: 2500, // milliseconds to make the next kill before the combo drops
+  // Reaching each combo raises the multiplier to that tier's
+  tiers: [
+    { combo: 5, multiplier: 1.5 },
+    { combo: 10, multiplier: 2 },
+    { combo: 20, multiplier: 3 },
+    { combo: 40, multiplier: 4 },
+  ],
+  multiKill: 0.5, // per earlier kill by the same projectile
+  charged: 0.1, // per charge level of the shot
+  closeCall: { zone: 0.25, bonus: 0.5 }, // kills in the bottom share of the playfield
+  noDamage: 250, // per stage number, for clearing a stage without a hit
+};
+
+// What the HUD shows of the score
+export interface ScoreStatus {
+  score: number;
+  combo: number;
+  maxCombo: number;
+  multiplier: number;
+  comboLeft: number; // share of the combo window left, in tenths
+}
+
+// A tally with nothing scored yet
+export const createStageScore = (): StageScore => ({
+  kills: 0,
+  points: 0,
+  combo: 0,
+  multiKill: 0,
+  charged: 0,
+  closeCall: 0,
+  noDamage: 0,
+  hitsTaken: 0,
+  maxCombo: 0,
+});
+
+export const createScore = (): ScoreState => ({
+  score: 0,
+  combo: 0,
+  maxCombo: 0,
+  comboTime: 0,
+  stage: createStageScore(),
+});
+
+// The highest tier the combo has reached
+export const getMultiplier = (combo: number) =>
+  SCORING_RULES.tiers.reduce(
+    (multiplier, tier) => (combo >= tier.combo ? tier.multiplier : multiplier),
+    1,
+  );
+
+// Everything a stage scored
+export const getStageTotal = (breakdown: StageScore) =>
+  breakdown.points +
+  breakdown.combo +
+  breakdown.multiKill +
+  breakdown.charged +
+  breakdown.closeCall +
+  breakdown.noDamage;
+
+const addPopup = (
+  world: GameWorld,
+  x: number,
+  y: number,
+  points: number,
+  label: string | null = null,
+) => {
+  world.scorePopups.push({ x, y, points, label, age: 0 });
+};
+
+// Extend the combo with a kill and score it with any bonuses it earned,
+// showing the points where the target was
+const scoreKill = (
+  world: GameWorld,
+  points: number,
+  target?: Box,
+  shot?: { chargeLevel: number; kills: number },
+) => {
+  const { scoring } = world;
+  const tally = scoring.stage;
+  scoring.combo += 1;
+  scoring.comboTime = SCORING_RULES.comboWindow;
+  scoring.maxCombo = Math.max(scoring.maxCombo, scoring.combo);
+  tally.maxCombo = Math.max(tally.maxCombo, scoring.combo);
+
+  const combo = Math.round(points * (getMultiplier(scoring.combo) - 1));
+  const multiKill = shot
+    ? Math.round(points * SCORING_RULES.multiKill * (shot.kills - 1))
+    : 0;
+  const charged = shot
+    ? Math.round(points * SCORING_RULES.charged * shot.chargeLevel)
+    : 0;
+  const closeCall =
+    target &&
+    target.y + target.height >=
+      world.height * (1 - SCORING_RULES.closeCall.zone)
+      ? Math.round(points * SCORING_RULES.closeCall.bonus)
+      : 0;
+  const total = points + combo + multiKill + charged + closeCall;
+
+  tally.kills += 1;
+  tally.points += points;
+  tally.combo += combo;
+  tally.multiKill += multiKill;
+  tally.charged += charged;
+  tally.closeCall += closeCall;
+  scoring.score += total;
+
+  // Kills that wipe out everything at once have nowhere to show
+  if (!target) return;
+  addPopup(
+    world,
+    target.x + target.width / 2,
+    target.y + target.height / 2,
+    total,
+    multiKill
+      ? `Multi ×${shot.kills}`
+      : closeCall
+        ? "Close call"
+        : charged
+          ? "Charged"
+          : null,
+  );
+};
+
+// A hit taken breaks the combo
+const breakCombo = (world: GameWorld) => {
+  const { scoring } = world;
+  scoring.combo = 0;
+  scoring.comboTime = 0;
+  scoring.stage.hitsTaken += 1;
+};
+
+// Award the no-damage bonus, report the stage's breakdown and start a new tally
+const finishStage = (world: GameWorld) => {
+  const { scoring } = world;
+  const tally = scoring.stage;
+  if (tally.hitsTaken === 0) {
+    tally.noDamage = SCORING_RULES.noDamage * world.stage;
+    scoring.score += tally.noDamage;
+    addPopup(
+      world,
+      world.width / 2,
+      world.height / 2,
+      tally.noDamage,
+      "No damage",
+    );
+  }
+
+  world.events.push({
+    type: "stageScored",
+    stage: world.stage,
+    breakdown: tally,
+  });
+  scoring.stage = createStageScore();
+};
+
+// Score what happened this step, let the combo run down and age the popups
+export const updateScore = (world: GameWorld, deltaTime: number) => {
+  const { scoring } = world;
+  scoring.comboTime = Math.max(scoring.comboTime - deltaTime, 0);
+  if (scoring.comboTime === 0) scoring.combo = 0;
+
+  removeWhere(world.scorePopups, (popup) => {
+    popup.age += deltaTime;
+    return popup.age >= POPUP_TIME;
+  });
+
+  // Only this step's events; finishing a stage adds one
+  const events: GameEvent[] = world.events.slice();
+  events.forEach((event) => {
+    switch (event.type) {
+      case "enemyDestroyed":
+        scoreKill(world, event.points, event.enemy, event.shot);
+        break;
+      case "bossDefeated":
+        // The boss is gone once its reward is paid, so show it mid-screen
+        scoreKill(world, event.points, {
+          x: world.width / 2,
+          y: world.height / 3,
+          width: 0,
+          height: 0,
+        });
+        break;
+      case "enemyReachedBottom":
+      case "playerHit":
+      case "playerShot":
+        breakCombo(world);
+        break;
+      case "stageCleared":
+        finishStage(world);
+        break;
+    }
+  });
+};
+
+export const getScoreStatus = (world: GameWorld): ScoreStatus => {
+  const { scoring } = world;
+  return {
+    score: scoring.score,
+    combo: scoring.combo,
+    maxCombo: scoring.maxCombo,
+    multiplier: getMultiplier(scoring.combo),
+    comboLeft:
+      Math.ceil((scoring.comboTime / SCORING_RULES.comboWindow) * 10) / 10,
+  };
+};
+
+export const isSameScoreStatus = (a: ScoreStatus, b: ScoreStatus) =>
+  a.score === b.score &&
+  a.combo === b.combo &&
+  a.maxCombo === b.maxCombo &&
+  a.comboLeft === b.comboLeft;
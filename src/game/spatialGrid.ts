@@ -0,0 +1,89 @@
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Uniform grid broadphase. Items are stored by index into whatever list was
+// inserted, and the grid is rebuilt every step.
+export interface SpatialGrid {
+  cellSize: number;
+  cells: Map<number, number[]>;
+  spareBuckets: number[][];
+  visited: number[];
+  queryId: number;
+}
+
+export const createGrid = (cellSize = 64): SpatialGrid => ({
+  cellSize,
+  cells: new Map(),
+  spareBuckets: [],
+  visited: [],
+  queryId: 0,
+});
+
+// Cells are keyed by one number; offsets keep negative coordinates apart
+const cellKey = (cellX: number, cellY: number) =>
+  (cellY + 32768) * 65536 + (cellX + 32768);
+
+// Visit every cell a box overlaps
+const forEachCell = (
+  grid: SpatialGrid,
+  box: Box,
+  visit: (key: number) => boolean | void,
+) => {
+  const minX = Math.floor(box.x / grid.cellSize);
+  const maxX = Math.floor((box.x + box.width) / grid.cellSize);
+  const minY = Math.floor(box.y / grid.cellSize);
+  const maxY = Math.floor((box.y + box.height) / grid.cellSize);
+
+  for (let cellY = minY; cellY <= maxY; cellY++) {
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      if (visit(cellKey(cellX, cellY)) === true) return;
+    }
+  }
+};
+
+// Empty the grid, keeping its buckets for reuse
+export const clearGrid = (grid: SpatialGrid) => {
+  grid.cells.forEach((bucket) => {
+    bucket.length = 0;
+    grid.spareBuckets.push(bucket);
+  });
+  grid.cells.clear();
+};
+
+// Add an item to every cell its box overlaps
+export const insertIntoGrid = (grid: SpatialGrid, index: number, box: Box) => {
+  forEachCell(grid, box, (key) => {
+    let bucket = grid.cells.get(key);
+    if (!bucket) {
+      bucket = grid.spareBuckets.pop() ?? [];
+      grid.cells.set(key, bucket);
+    }
+    bucket.push(index);
+  });
+};
+
+// Visit each item whose cells overlap the box, once. Returning true from the
+// visitor stops the query.
+export const queryGrid = (
+  grid: SpatialGrid,
+  box: Box,
+  visit: (index: number) => boolean | void,
+) => {
+  const queryId = ++grid.queryId;
+
+  forEachCell(grid, box, (key) => {
+    const bucket = grid.cells.get(key);
+    if (!bucket) return;
+
+    for (let i = 0; i < bucket.length; i++) {
+      const index = bucket[i];
+      if (grid.visited[index] === queryId) continue;
+      grid.visited[index] = queryId;
+      if (visit(index) === true) return true;
+    }
+  });
+};
@@ -0,0 +1,139 @@
+import { BOSS_DEFINITIONS } from "./bossDefinitions";
+import { ENEMY_ARCHETYPES, getArchetype } from "./enemyArchetypes";
+import { moveEnemies, spawnArchetype } from "./enemies";
+import { FIXED_TIMESTEP } from "./loop";
+import { LANE_COUNT, StageScript, StageStep, WaveStep } from "./stageScripts";
+import { getFormationPositions } from "./stages";
+import { Enemy } from "./types";
+import { createWorld } from "./world";
+
+const TRACE_TICKS = 480; // simulation ticks of movement drawn for a wave
+const TRACE_SAMPLE = 6; // ticks between points on a path
+
+// When a step starts, in milliseconds from the start of the stage.
+// afterWait is set once a waitForClear step has come before it, since
+// then the time depends on how fast the player is.
+export interface StepTime {
+  start: number;
+  duration: number;
+  afterWait: boolean;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Defaults for a newly added step of each type
+export const createStep = (type: StageStep["type"]): StageStep => {
+  switch (type) {
+    case "wave":
+      return {
+        type,
+        archetype: ENEMY_ARCHETYPES[0].id,
+        count: 3,
+        formation: "line",
+      };
+    case "pause":
+      return { type, duration: 2000 };
+    case "random":
+      return { type, duration: 10000 };
+    case "waitForClear":
+      return { type };
+    case "boss":
+      return { type, boss: BOSS_DEFINITIONS[0].id };
+  }
+};
+
+// A new stage with a single wave
+export const createStageScript = (id: string): StageScript => ({
+  id,
+  name: "New Stage",
+  win: { type: "destroyAll" },
+  steps: [createStep("wave")],
+});
+
+// Lay the steps out on a timeline, counting waits for a clear as instant
+export const getStepTimes = (script: StageScript): StepTime[] => {
+  let start = 0;
+  let afterWait = false;
+
+  return script.steps.map((step) => {
+    const duration =
+      step.type === "pause" || step.type === "random" ? step.duration : 0;
+    const time = { start, duration, afterWait };
+    start += duration;
+    if (step.type === "waitForClear") afterWait = true;
+    return time;
+  });
+};
+
+// Total length of one pass through the steps, in milliseconds
+export const getScriptLength = (script: StageScript) =>
+  getStepTimes(script).reduce(
+    (length, time) => Math.max(length, time.start + time.duration),
+    0,
+  );
+
+// Move a step to start at another time by growing, shrinking, adding or
+// removing the pause just before it. It can't start before the steps
+// ahead of it have finished.
+export const setStepStartTime = (
+  script: StageScript,
+  index: number,
+  time: number,
+): StageScript => {
+  const current = getStepTimes(script)[index].start;
+  const change = Math.round(time - current);
+  if (change === 0) return script;
+
+  const steps = [...script.steps];
+  const previous = steps[index - 1];
+
+  if (previous?.type === "pause") {
+    const duration = previous.duration + change;
+    if (duration > 0) {
+      steps[index - 1] = { ...previous, duration };
+    } else {
+      steps.splice(index - 1, 1);
+    }
+  } else if (change > 0) {
+    steps.splice(index, 0, { type: "pause", duration: change });
+  }
+
+  return { ...script, steps };
+};
+
+// The lane nearest a point across the playfield
+export const getLaneAt = (x: number, width: number) =>
+  Math.min(Math.max(Math.floor((x / width) * LANE_COUNT), 0), LANE_COUNT - 1);
+
+// Where a wave starts and the paths its enemies follow, on a playfield of
+// the given size
+export const traceWave = (wave: WaveStep, width: number, height: number) => {
+  const world = createWorld({ width, height, seed: 1 });
+
+  const archetype = getArchetype(wave.archetype);
+  const starts = getFormationPositions(world, wave);
+  const enemies = starts.map(({ x, y }) =>
+    spawnArchetype(world, archetype, x, y, wave.behavior),
+  );
+  // Paths go through the middle of each enemy
+  const centre = (enemy: Enemy): Point => ({
+    x: enemy.x + enemy.width / 2,
+    y: enemy.y + enemy.height / 2,
+  });
+  const paths = enemies.map((enemy) => [centre(enemy)]);
+
+  for (let tick = 1; tick <= TRACE_TICKS; tick++) {
+    moveEnemies(world, FIXED_TIMESTEP);
+    if (tick % TRACE_SAMPLE !== 0) continue;
+
+    enemies.forEach((enemy, index) => {
+      // Enemies that left the playfield have gone back to the pool
+      if (world.enemies.includes(enemy)) paths[index].push(centre(enemy));
+    });
+  }
+
+  return { starts, paths };
+};
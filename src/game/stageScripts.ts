@@ -0,0 +1,180 @@
+import { z } from "zod";
+import {
+  BOSS_DEFINITIONS,
+  BOSS_STAGE_INTERVAL,
+  getBossForStage,
+  hasBossDefinition,
+  isBossStage,
+} from "./bossDefinitions";
+import { ENEMY_BEHAVIOR_IDS } from "./behaviors";
+import { parseData } from "./data";
+import { hasArchetype } from "./enemyArchetypes";
+import stageData from "./stages.json";
+import { EnemyBehaviorId } from "./types";
+
+export const LANE_COUNT = 5; // spawn lanes across the playfield, 0 is leftmost
+export const FORMATIONS = ["line", "v", "column", "scatter"] as const;
+export type Formation = (typeof FORMATIONS)[number];
+
+const ENDLESS_DURATION = 180; // seconds to survive on stages past the authored ones
+const BOSS_HEALTH_PER_ROUND = 0.5; // extra health each time the bosses come round again
+
+// A group of enemies entering together
+export interface WaveStep {
+  type: "wave";
+  archetype: string;
+  count: number;
+  formation: Formation;
+  lane?: number; // Lane the formation is centred on, the middle if not given
+  behavior?: EnemyBehaviorId; // Overrides the archetype's movement
+}
+
+// Nothing new arrives for a while
+export interface PauseStep {
+  type: "pause";
+  duration: number; // milliseconds
+}
+
+// Enemies picked by the stage's spawn weights, one every interval
+export interface RandomStep {
+  type: "random";
+  duration: number; // milliseconds
+  interval?: number; // milliseconds between spawns, shortening with the stage if not given
+}
+
+// Hold the script until every enemy and boss is gone
+export interface WaitForClearStep {
+  type: "waitForClear";
+}
+
+// Bring in a boss
+export interface BossStep {
+  type: "boss";
+  boss: string; // Boss definition id
+  healthScale?: number; // multiplier on its health, 1 if not given
+}
+
+export type StageStep =
+  WaveStep | PauseStep | RandomStep | WaitForClearStep | BossStep;
+
+// How a stage is won. Survival stages repeat their steps until time is up;
+// destroy-all stages are won once the steps are done and nothing is left.
+export type WinCondition =
+  | { type: "survive"; duration: number } // seconds
+  | { type: "destroyAll" };
+
+export interface StageScript {
+  id: string;
+  name: string;
+  win: WinCondition;
+  steps: StageStep[];
+}
+
+const stepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("wave"),
+    archetype: z.string().refine(hasArchetype, "Unknown enemy archetype"),
+    count: z.number().int().positive(),
+    formation: z.enum(FORMATIONS),
+    lane: z
+      .number()
+      .int()
+      .min(0)
+      .max(LANE_COUNT - 1)
+      .optional(),
+    behavior: z
+      .enum(ENEMY_BEHAVIOR_IDS as [EnemyBehaviorId, ...EnemyBehaviorId[]])
+      .optional(),
+  }),
+  z.object({
+    type: z.literal("pause"),
+    duration: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal("random"),
+    duration: z.number().positive(),
+    interval: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal("waitForClear"),
+  }),
+  z.object({
+    type: z.literal("boss"),
+    boss: z.string().refine(hasBossDefinition, "Unknown boss"),
+    healthScale: z.number().positive().optional(),
+  }),
+]);
+
+const TIMED_STEPS = ["pause", "random", "waitForClear"];
+
+const scriptSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    win: z.discriminatedUnion("type", [
+      z.object({ type: z.literal("survive"), duration: z.number().positive() }),
+      z.object({ type: z.literal("destroyAll") }),
+    ]),
+    steps: z.array(stepSchema).min(1),
+  })
+  .refine(
+    (script) =>
+      script.win.type !== "survive" ||
+      script.steps.some((step) => TIMED_STEPS.includes(step.type)),
+    "Survival stages repeat their steps, so they need a pause, random or waitForClear step",
+  );
+
+const registrySchema = z
+  .array(scriptSchema)
+  .refine(
+    (scripts) =>
+      new Set(scripts.map((script) => script.id)).size === scripts.length,
+    "Stage script ids must be unique",
+  );
+
+// Check one stage script, throwing with the problems found if it's invalid
+export const parseStageScript = (data: unknown) =>
+  parseData<StageScript>(scriptSchema, data, "stage script");
+
+// Check the authored stage list, throwing with the problems found if it's invalid
+export const parseStageScripts = (data: unknown) =>
+  parseData<StageScript[]>(registrySchema, data, "stage scripts");
+
+// Authored stages, played in order from stage 1
+export const STAGE_SCRIPTS = parseStageScripts(stageData);
+
+// A script for a stage past the authored ones: survive random waves, with
+// a boss every few stages that gets tougher each time round
+export const createEndlessScript = (stage: number): StageScript => {
+  if (isBossStage(stage)) {
+    const round = Math.floor(
+      (stage / BOSS_STAGE_INTERVAL - 1) / BOSS_DEFINITIONS.length,
+    );
+    const boss = getBossForStage(stage);
+    return {
+      id: `endless-${stage}`,
+      name: boss.name,
+      win: { type: "destroyAll" },
+      steps: [
+        { type: "pause", duration: 2000 },
+        {
+          type: "boss",
+          boss: boss.id,
+          healthScale: 1 + round * BOSS_HEALTH_PER_ROUND,
+        },
+        { type: "waitForClear" },
+      ],
+    };
+  }
+
+  return {
+    id: `endless-${stage}`,
+    name: `Stage ${stage}`,
+    win: { type: "survive", duration: ENDLESS_DURATION },
+    steps: [{ type: "random", duration: ENDLESS_DURATION * 1000 }],
+  };
+};
+
+// The script for a stage, authored if there is one
+export const getStageScript = (stage: number) =>
+  STAGE_SCRIPTS[stage - 1] ?? createEndlessScript(stage);
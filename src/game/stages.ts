@@ -0,0 +1,125 @@
+import { getBossDefinition } from "./bossDefinitions";
+import { createBoss } from "./bosses";
+import { getArchetype } from "./enemyArchetypes";
+import { spawnArchetype, updateEnemySpawning } from "./enemies";
+import { nextRandom } from "./random";
+import { LANE_COUNT, StageScript, StageStep, WaveStep } from "./stageScripts";
+import { GameWorld } from "./types";
+
+const FORMATION_GAP = 12; // px between enemies in a formation
+
+// Start running a stage's script from the top
+export const startStage = (world: GameWorld, script: StageScript) => {
+  world.stageRun = { script, step: 0, stepTime: 0, cleared: false };
+  // Only survival stages run against the clock
+  world.stageTimer =
+    script.win.type === "survive" ? script.win.duration : Infinity;
+  world.enemySpawnTimer = 0;
+  world.boss = null;
+};
+
+// Whole seconds left on a survival stage's clock, 0 if the stage isn't timed.
+// Rounded to the millisecond first so fixed-step rounding error doesn't show.
+export const getTimeRemaining = (world: GameWorld) =>
+  Number.isFinite(world.stageTimer)
+    ? Math.ceil(Math.round(world.stageTimer * 1000) / 1000)
+    : 0;
+
+// Where each enemy of a wave starts, just above the playfield
+export const getFormationPositions = (world: GameWorld, wave: WaveStep) => {
+  const { width, height } = getArchetype(wave.archetype);
+  const lane = wave.lane ?? Math.floor(LANE_COUNT / 2);
+  const centre = ((lane + 0.5) / LANE_COUNT) * world.width - width / 2;
+  const middle = (wave.count - 1) / 2;
+
+  return Array.from({ length: wave.count }, (_, index) => {
+    let x = centre + (index - middle) * (width + FORMATION_GAP);
+    let y = -height;
+
+    switch (wave.formation) {
+      case "v":
+        y -= Math.abs(index - middle) * (height + FORMATION_GAP);
+        break;
+      case "column":
+        x = centre;
+        y -= index * (height + FORMATION_GAP);
+        break;
+      case "scatter":
+        x = nextRandom(world.rng) * (world.width - width);
+        y -= nextRandom(world.rng) * height * 3;
+        break;
+    }
+
+    return { x: Math.min(Math.max(x, 0), world.width - width), y };
+  });
+};
+
+// Send in a wave in its formation
+const spawnWave = (world: GameWorld, wave: WaveStep) => {
+  const archetype = getArchetype(wave.archetype);
+  getFormationPositions(world, wave).forEach(({ x, y }) =>
+    spawnArchetype(world, archetype, x, y, wave.behavior),
+  );
+};
+
+// Run a step for one tick. Returns whether it has finished.
+const runStep = (world: GameWorld, step: StageStep, deltaTime: number) => {
+  const run = world.stageRun;
+
+  switch (step.type) {
+    case "wave":
+      spawnWave(world, step);
+      return true;
+    case "boss":
+      world.boss = createBoss(getBossDefinition(step.boss), step.healthScale);
+      return true;
+    case "pause":
+      run.stepTime += deltaTime;
+      return run.stepTime >= step.duration;
+    case "random":
+      run.stepTime += deltaTime;
+      updateEnemySpawning(world, deltaTime, step.interval);
+      return run.stepTime >= step.duration;
+    case "waitForClear":
+      return world.enemies.length === 0 && !world.boss;
+  }
+};
+
+const clearStage = (world: GameWorld) => {
+  world.stageRun.cleared = true;
+  world.events.push({ type: "stageCleared" });
+};
+
+// Advance the stage script and check whether the stage has been won
+export const updateStage = (world: GameWorld, deltaTime: number) => {
+  const run = world.stageRun;
+  if (!run || run.cleared) return;
+  const { script } = run;
+
+  if (script.win.type === "survive") {
+    world.stageTimer = Math.max(world.stageTimer - deltaTime / 1000, 0);
+    if (world.stageTimer === 0) {
+      clearStage(world);
+      return;
+    }
+  }
+
+  // Steps that finish at once run straight into the next one
+  while (
+    run.step < script.steps.length &&
+    runStep(world, script.steps[run.step], deltaTime)
+  ) {
+    run.step += 1;
+    run.stepTime = 0;
+    world.enemySpawnTimer = 0;
+  }
+
+  if (run.step < script.steps.length) return;
+
+  if (script.win.type === "survive") {
+    // Go round again until time is up
+    run.step = 0;
+  } else if (world.enemies.length === 0 && !world.boss) {
+    clearStage(world);
+  }
+};
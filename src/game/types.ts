@@ -0,0 +1,296 @@
+import { Pool } from "./pool";
+import { RandomState } from "./random";
+import { StageScript } from "./stageScripts";
+
+export type BulletType = "standard" | "laser" | "plasma" | "explosive";
+
+// How an enemy moves, see behaviors.ts
+export type EnemyBehaviorId =
+  "descend" | "sine" | "dive" | "strafe" | "swoop" | "homing";
+
+// Anything with a position and size, for collisions
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Position before the last tick, used to interpolate rendering
+interface PreviousPosition {
+  prevX?: number;
+  prevY?: number;
+}
+
+export interface Enemy extends PreviousPosition {
+  id: string;
+  x: number;
+  y: number;
+  type: string; // Archetype id from the enemy registry
+  health: number;
+  speed: number;
+  width: number;
+  height: number;
+  behavior: EnemyBehaviorId;
+  age: number; // milliseconds since it spawned
+  originX: number; // Spawn position, for behaviors that follow a fixed path
+  originY: number;
+  direction: number; // 1 or -1, which way it strafes or loops
+  velocityX?: number; // px per ms, set once a diving enemy commits to its dive
+  velocityY?: number;
+  fireTimer: number; // milliseconds until its next volley
+  volleys: number; // volleys fired so far, which turns spiral patterns
+  dropsPowerUp?: boolean; // Leaves a power-up behind when destroyed
+}
+
+// A hostile bullet fired by an enemy
+export interface EnemyBullet extends PreviousPosition {
+  id: string;
+  x: number;
+  y: number;
+  velocityX: number; // px per ms
+  velocityY: number;
+  width: number;
+  height: number;
+  pattern: string; // Bullet pattern id, for how it's drawn
+}
+
+export interface Projectile extends PreviousPosition {
+  id: string;
+  x: number;
+  y: number;
+  speed: number;
+  width: number;
+  height: number;
+  isSpecial?: boolean;
+  isCharged?: boolean;
+  chargeLevel?: number;
+  damage?: number;
+  bulletType?: BulletType;
+  piercing?: boolean; // Keeps going after a hit instead of being consumed
+  pierceLimit?: number; // Hits a piercing projectile survives, no limit if not given
+  hitIds?: string[]; // Enemies a piercing projectile already damaged
+  velocityX?: number; // px per ms sideways, for fanned and homing shots
+  homing?: number; // px per ms² of drift towards the nearest enemy ahead
+  splashRadius?: number; // px around the impact that also takes damage
+  kills?: number; // Enemies it has destroyed, for multi-kill bonuses
+}
+
+// The blast of an explosive round, kept briefly for the renderers
+export interface Explosion {
+  x: number; // centre
+  y: number;
+  radius: number;
+  age: number; // milliseconds since it went off
+}
+
+// A detonated bomb's blast, see bombs.ts. It damages everything once as its
+// front passes and clears enemy bullets.
+export interface Shockwave {
+  x: number; // centre
+  y: number;
+  radius: number; // px the front has travelled
+  maxRadius: number;
+  hitIds: string[]; // Enemies and the boss it already damaged
+}
+
+// Points floating up from where they were scored, kept briefly for the renderers
+export interface ScorePopup {
+  x: number;
+  y: number;
+  points: number;
+  label: string | null; // The bonus earned, if any
+  age: number; // milliseconds since it appeared
+}
+
+// Where a stage's points came from, see scoring.ts
+export interface StageScore {
+  kills: number;
+  points: number; // What everything destroyed is worth on its own
+  combo: number; // Extra from the combo multiplier
+  multiKill: number;
+  charged: number;
+  closeCall: number;
+  noDamage: number;
+  hitsTaken: number;
+  maxCombo: number;
+}
+
+// The run's score and the combo building it up
+export interface ScoreState {
+  score: number;
+  combo: number; // Kills in a row, each within the combo window of the last
+  maxCombo: number;
+  comboTime: number; // milliseconds left to extend the combo
+  stage: StageScore; // Tally for the stage being played
+}
+
+// The boss of a boss stage, see bosses.ts
+export interface Boss extends PreviousPosition {
+  id: string; // Boss definition id
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  health: number;
+  maxHealth: number;
+  state: "intro" | "fighting" | "defeated";
+  stateTime: number; // milliseconds spent in the current state
+  phase: number; // Index into the definition's phases
+  swayAngle: number; // radians along the side-to-side sweep
+  scriptStep: number; // Next step of the phase's attack script
+  scriptTimer: number; // milliseconds until that step
+  summonTimer: number; // milliseconds until minions are next summoned
+  volleys: number; // volleys fired so far, which turns spiral patterns
+  weakPointHealth: number[]; // Same order as the definition's weak points
+}
+
+export interface PowerUp extends PreviousPosition {
+  id: string;
+  x: number;
+  y: number;
+  type:
+    | "rapidFire"
+    | "shield"
+    | "multiShot"
+    | "bomb"
+    | "magnet"
+    | "slowMotion"
+    | "drones"
+    | "piercing"
+    | "health";
+  speed: number;
+  width: number;
+  height: number;
+}
+
+// A running power-up, see TIMED_POWER_UPS in powerUps.ts for how pickups add up
+export interface TimedPowerUp {
+  active: boolean;
+  duration: number; // milliseconds it ran for when last picked up
+  remaining: number;
+  stacks: number;
+}
+
+export interface Player extends PreviousPosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  cooldown: number;
+  currentCooldown: number;
+  currentBulletType: BulletType;
+  velocityX: number; // px per ms, from held movement input
+  health: number; // the run ends when this reaches 0, see health.ts
+  maxHealth: number;
+  droneCooldown?: number; // milliseconds until helper drones fire again
+  shieldActive?: boolean;
+  shieldDuration?: number;
+  shieldCooldown: number; // milliseconds until the shield can go up again
+  specialCooldown: number; // milliseconds until the next special shot
+  specialCharge: number; // 0 to 100, each special shot uses some up
+  powerUps: {
+    rapidFire?: TimedPowerUp;
+    shield?: TimedPowerUp;
+    multiShot?: TimedPowerUp;
+    magnet?: TimedPowerUp;
+    slowMotion?: TimedPowerUp;
+    drones?: TimedPowerUp;
+    piercing?: TimedPowerUp;
+    // Bombs held, and whether one's shockwave is still going out
+    bomb?: { active: boolean; count: number };
+  };
+  upgrades: PlayerUpgrades;
+}
+
+// What the player has bought from the shop this run and the credits left to
+// spend, see upgrades.ts. Replaced rather than changed in place.
+export interface PlayerUpgrades {
+  credits: number;
+  levels: Record<string, number>; // by upgrade id, 0 if missing
+}
+
+// Everything fed into the simulation since the last step. The world reads it
+// once per step and clearInput resets it afterwards, except for moveAxis which
+// is held state. Stage and size changes go through here too so that recorded
+// runs replay exactly.
+export interface GameInput {
+  targetX: number | null;
+  moveAxis: number; // -1 (left) to 1 (right)
+  firePressed: boolean;
+  fireReleased: boolean;
+  specialFire: boolean;
+  shield: boolean;
+  bomb: boolean;
+  bulletType: BulletType | null;
+  stage: number | null;
+  resize: { width: number; height: number } | null;
+  purchases: string[]; // Upgrade ids bought in the shop, in order
+}
+
+// Things that happened during a step, for the UI to react to
+export type GameEvent =
+  | {
+      type: "enemyDestroyed";
+      points: number;
+      enemy?: Enemy;
+      // The projectile's charge and how many it has destroyed, this one included
+      shot?: { chargeLevel: number; kills: number };
+    }
+  | { type: "enemyReachedBottom"; enemy: Enemy }
+  | { type: "playerHit"; enemy: Enemy }
+  | { type: "playerShot"; bullet: EnemyBullet }
+  | { type: "powerUpCollected"; powerUpType: PowerUp["type"] }
+  | { type: "specialFired" }
+  | { type: "shieldActivated" }
+  | { type: "bombDetonated" }
+  | { type: "bossAppeared"; name: string }
+  | { type: "bossPhaseChanged"; phase: number }
+  | { type: "weakPointDestroyed"; weakPoint: string }
+  | { type: "bossDefeated"; points: number; reward: PowerUp["type"] }
+  | { type: "stageCleared" }
+  | { type: "upgradePurchased"; upgrade: string; level: number }
+  | { type: "stageScored"; stage: number; breakdown: StageScore }
+  | { type: "gameOver" };
+
+// How far the world is through its stage script, see stages.ts
+export interface StageRun {
+  script: StageScript;
+  step: number; // Index of the step being run
+  stepTime: number; // milliseconds spent on that step
+  cleared: boolean;
+}
+
+export interface GameWorld {
+  rng: RandomState;
+  lastId: number;
+  width: number;
+  height: number;
+  stage: number;
+  tick: number; // number of steps run so far
+  time: number; // milliseconds of simulated time
+  stageTimer: number; // seconds left in the stage, Infinity if it isn't timed
+  stageRun: StageRun | null; // null when nothing is scripted, e.g. in benchmarks
+  gameOverTick: number | null; // tick the player ran out of health on
+  enemySpawnTimer: number;
+  powerUpSpawnTimer: number;
+  dropPityTimer: number; // milliseconds since a power-up last appeared
+  chargeStartTime: number | null;
+  currentChargeLevel: number;
+  player: Player;
+  enemies: Enemy[];
+  projectiles: Projectile[];
+  enemyBullets: EnemyBullet[];
+  boss: Boss | null;
+  powerUps: PowerUp[];
+  explosions: Explosion[];
+  shockwave: Shockwave | null;
+  scoring: ScoreState;
+  scorePopups: ScorePopup[];
+  events: GameEvent[];
+  pools: {
+    enemies: Pool<Enemy>;
+    projectiles: Pool<Projectile>;
+    enemyBullets: Pool<EnemyBullet>;
+  };
+}
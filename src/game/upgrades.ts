@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { parseData } from "./data";
+import { raiseMaxHealth } from "./health";
+import upgradeData from "./upgrades.json";
+import { BulletType, GameWorld, PlayerUpgrades } from "./types";
+import { WEAPON_PROFILES } from "./weapons";
+
+export const UPGRADE_STATS = [
+  "damage", // share of extra damage
+  "fireRate", // share of the cooldown taken off
+  "projectiles", // extra projectiles per shot
+  "chargeSpeed", // share of the charge time taken off
+  "maxHealth", // extra points of health
+  "shieldCapacity", // extra milliseconds of shield
+] as const;
+export type UpgradeStat = (typeof UPGRADE_STATS)[number];
+
+const CREDITS_PER_POINT = 0.1; // credits earned for each point scored
+const MAX_REDUCTION = 0.6; // cooldowns and charge times never shrink by more
+
+// Something the shop sells. Each level costs the next entry in costs, so
+// unlocks have a single cost. New upgrades are added in upgrades.json.
+export interface Upgrade {
+  id: string;
+  name: string;
+  description: string;
+  effect:
+    | { type: "unlock"; bulletType: BulletType }
+    | { type: "stat"; stat: UpgradeStat; perLevel: number };
+  costs: number[];
+}
+
+const BULLET_TYPE_IDS = Object.keys(WEAPON_PROFILES) as BulletType[];
+
+const upgradeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  effect: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("unlock"),
+      bulletType: z.enum(BULLET_TYPE_IDS as [BulletType, ...BulletType[]]),
+    }),
+    z.object({
+      type: z.literal("stat"),
+      stat: z.enum(UPGRADE_STATS),
+      perLevel: z.number().positive(),
+    }),
+  ]),
+  costs: z.array(z.number().int().positive()).min(1),
+});
+
+const registrySchema = z
+  .array(upgradeSchema)
+  .refine(
+    (upgrades) =>
+      new Set(upgrades.map((upgrade) => upgrade.id)).size === upgrades.length,
+    "Upgrade ids must be unique",
+  )
+  .refine(
+    (upgrades) =>
+      upgrades.every(
+        (upgrade) =>
+          upgrade.effect.type !== "unlock" || upgrade.costs.length === 1,
+      ),
+    "Unlocks have a single level",
+  );
+
+// Check the shop's upgrades, throwing with the problems found if they're invalid
+export const parseUpgrades = (data: unknown) =>
+  parseData<Upgrade[]>(registrySchema, data, "upgrades");
+
+export const UPGRADES = parseUpgrades(upgradeData);
+
+const upgradesById = new Map(UPGRADES.map((upgrade) => [upgrade.id, upgrade]));
+
+// Whether an upgrade with this id exists
+export const hasUpgrade = (id: string) => upgradesById.has(id);
+
+// Look up an upgrade by its id
+export const getUpgrade = (id: string) => {
+  const upgrade = upgradesById.get(id);
+  if (!upgrade) throw new Error(`Unknown upgrade: ${id}`);
+  return upgrade;
+};
+
+// A run's starting upgrades: nothing levelled, and only the given bullet
+// types unlocked besides standard
+export const createUpgrades = (
+  unlocked: BulletType[] = BULLET_TYPE_IDS,
+): PlayerUpgrades => ({
+  credits: 0,
+  levels: Object.fromEntries(
+    UPGRADES.filter(
+      ({ effect }) =>
+        effect.type === "unlock" && unlocked.includes(effect.bulletType),
+    ).map((upgrade) => [upgrade.id, 1]),
+  ),
+});
+
+export const getUpgradeLevel = (upgrades: PlayerUpgrades, id: string) =>
+  upgrades.levels[id] ?? 0;
+
+// What the next level of an upgrade costs, or null once it's maxed out
+export const getUpgradeCost = (upgrades: PlayerUpgrades, id: string) =>
+  getUpgrade(id).costs[getUpgradeLevel(upgrades, id)] ?? null;
+
+// Whether the next level of an upgrade is for sale and affordable
+export const canPurchase = (upgrades: PlayerUpgrades, id: string) => {
+  const cost = getUpgradeCost(upgrades, id);
+  return cost !== null && upgrades.credits >= cost;
+};
+
+// The upgrades after buying the next level of one, unchanged if it can't be
+// bought. Upgrades are never changed in place, so a new object means
+// something changed.
+export const purchaseUpgrade = (
+  upgrades: PlayerUpgrades,
+  id: string,
+): PlayerUpgrades => {
+  if (!hasUpgrade(id) || !canPurchase(upgrades, id)) return upgrades;
+
+  return {
+    credits: upgrades.credits - getUpgradeCost(upgrades, id),
+    levels: { ...upgrades.levels, [id]: getUpgradeLevel(upgrades, id) + 1 },
+  };
+};
+
+// Total bonus from every upgrade to a stat
+export const getStatBonus = (upgrades: PlayerUpgrades, stat: UpgradeStat) =>
+  UPGRADES.reduce(
+    (bonus, upgrade) =>
+      upgrade.effect.type === "stat" && upgrade.effect.stat === stat
+        ? bonus +
+          upgrade.effect.perLevel * getUpgradeLevel(upgrades, upgrade.id)
+        : bonus,
+    0,
+  );
+
+// Multiplier for a time that an upgrade shortens, e.g. cooldowns
+export const getReduction = (upgrades: PlayerUpgrades, stat: UpgradeStat) =>
+  1 - Math.min(getStatBonus(upgrades, stat), MAX_REDUCTION);
+
+// Whether a bullet type can be selected. Standard is always available.
+export const isBulletTypeUnlocked = (
+  upgrades: PlayerUpgrades,
+  bulletType: BulletType,
+) =>
+  bulletType === "standard" ||
+  UPGRADES.some(
+    (upgrade) =>
+      upgrade.effect.type === "unlock" &&
+      upgrade.effect.bulletType === bulletType &&
+      getUpgradeLevel(upgrades, upgrade.id) > 0,
+  );
+
+// Every bullet type the player can select
+export const getUnlockedBulletTypes = (upgrades: PlayerUpgrades) =>
+  BULLET_TYPE_IDS.filter((bulletType) =>
+    isBulletTypeUnlocked(upgrades, bulletType),
+  );
+
+// Pay out credits for everything destroyed this step
+export const collectCredits = (world: GameWorld) => {
+  const { player } = world;
+  const earned = world.events.reduce(
+    (total, event) =>
+      event.type === "enemyDestroyed" || event.type === "bossDefeated"
+        ? total + Math.ceil(event.points * CREDITS_PER_POINT)
+        : total,
+    0,
+  );
+  if (earned === 0) return;
+
+  player.upgrades = {
+    ...player.upgrades,
+    credits: player.upgrades.credits + earned,
+  };
+};
+
+// Buy an upgrade for the player if they can afford it. Extra health is
+// there straight away.
+export const applyPurchase = (world: GameWorld, id: string) => {
+  const { player } = world;
+  const upgrades = purchaseUpgrade(player.upgrades, id);
+  if (upgrades === player.upgrades) return;
+
+  player.upgrades = upgrades;
+  const { effect } = getUpgrade(id);
+  if (effect.type === "stat" && effect.stat === "maxHealth") {
+    raiseMaxHealth(player, effect.perLevel);
+  }
+
+  world.events.push({
+    type: "upgradePurchased",
+    upgrade: id,
+    level: getUpgradeLevel(upgrades, id),
+  });
+};
@@ -0,0 +1,110 @@
+import { FIXED_TIMESTEP } from "./loop";
+import { decodeReplay, Replay, simulateReplay } from "./replay";
+
+// What a run achieved, as worked out from its replay
+export interface RunSummary {
+  score: number;
+  stage: number;
+  maxCombo: number;
+  duration: number; // milliseconds of game time
+  hitsTaken: number;
+  gameOverTick: number | null; // when the player ran out of health, if they did
+}
+
+// The figures a player claims for a run
+export type RunClaim = Omit<RunSummary, "hitsTaken" | "gameOverTick">;
+
+const CLAIM_FIELDS: (keyof RunClaim)[] = [
+  "score",
+  "stage",
+  "maxCombo",
+  "duration",
+];
+
+export interface VerificationResult {
+  valid: boolean;
+  summary: RunSummary;
+  mismatches: (keyof RunClaim)[];
+}
+
+// How much game time a replay covers
+const getReplayDuration = (replay: Replay) => replay.length * FIXED_TIMESTEP;
+
+// Re-run a replay and read off the score the game screen shows, which the
+// simulation keeps itself (see scoring.ts)
+export const summarizeReplay = (replay: Replay): RunSummary => {
+  let hitsTaken = 0;
+
+  const world = simulateReplay(replay, replay.length, (event) => {
+    switch (event.type) {
+      case "enemyReachedBottom":
+      case "playerHit":
+      case "playerShot":
+        hitsTaken += 1;
+        break;
+    }
+  });
+
+  return {
+    score: world.scoring.score,
+    stage: world.stage,
+    maxCombo: world.scoring.maxCombo,
+    duration: getReplayDuration(replay),
+    hitsTaken,
+    gameOverTick: world.gameOverTick,
+  };
+};
+
+// Whether a replay has input recorded after the player was destroyed, which
+// the game never records
+const continuesAfterGameOver = (summary: RunSummary, replay: Replay) =>
+  summary.gameOverTick !== null && summary.gameOverTick < replay.length;
+
+// Accept a claimed result only if re-simulating its replay gives the same one
+// and the run ended where the player was destroyed
+export const verifyRun = (
+  claim: RunClaim,
+  replay: Replay,
+): VerificationResult => {
+  const summary = summarizeReplay(replay);
+  const mismatches = CLAIM_FIELDS.filter(
+    (key) => Math.round(claim[key]) !== Math.round(summary[key]),
+  );
+
+  return {
+    valid: mismatches.length === 0 && !continuesAfterGameOver(summary, replay),
+    summary,
+    mismatches,
+  };
+};
+
+// Check a claim against a replay as it is sent and stored. Returns why the
+// claim was rejected, or null if it holds up.
+export const checkRun = (
+  claim: RunClaim,
+  encodedReplay: string | null,
+): string | null => {
+  if (!encodedReplay) return "No replay was submitted";
+
+  let replay: Replay;
+  try {
+    replay = decodeReplay(encodedReplay);
+  } catch (err) {
+    return err instanceof Error ? err.message : "Replay is unreadable";
+  }
+
+  // The game always starts a run on the first stage
+  if (replay.stage !== 1) return "Replay does not start on the first stage";
+
+  // The duration follows from the replay's length alone, so a claim that
+  // doesn't match it is turned away without simulating anything
+  if (Math.round(claim.duration) !== Math.round(getReplayDuration(replay))) {
+    return "Replay does not match the claimed duration";
+  }
+
+  const { valid, summary, mismatches } = verifyRun(claim, replay);
+  if (valid) return null;
+  return continuesAfterGameOver(summary, replay)
+    ? "Replay continues after the player was destroyed"
+    : `Replay does not match the claimed ${mismatches.join(", ")}`;
+};
@@ -0,0 +1,76 @@
+import { BulletType } from "./types";
+
+// How one bullet type fires and behaves. Charge adds its per-level amounts
+// for each charge level reached; multiShot fires count bullets side by side
+// and fanned out.
+export interface WeaponProfile {
+  width: number;
+  height: number;
+  speed: number; // px per ms
+  damage: number;
+  cooldown: number; // milliseconds between shots
+  rapidFireCooldown: number; // milliseconds between shots with rapidFire
+  chargeCooldown: number; // extra milliseconds per charge level
+  charge: { width: number; height: number; speed: number; damage: number };
+  multiShot: { count: number; spacing: number; spread: number }; // px, degrees
+  // Passes through this many enemies before it's spent
+  pierce?: { limit: number; perCharge: number };
+  // Bursts on impact, hurting everything within the radius (px)
+  splash?: { radius: number; perCharge: number };
+  // Drifts sideways towards the nearest enemy ahead, in px per ms²
+  homing?: { strength: number; perCharge: number };
+}
+
+export const WEAPON_PROFILES: Record<BulletType, WeaponProfile> = {
+  // Weak but the quickest to fire
+  standard: {
+    width: 10,
+    height: 20,
+    speed: 0.5,
+    damage: 1,
+    cooldown: 250,
+    rapidFireCooldown: 100,
+    chargeCooldown: 80,
+    charge: { width: 2, height: 3, speed: 0.05, damage: 0.5 },
+    multiShot: { count: 3, spacing: 20, spread: 0 },
+  },
+  // Fast beams that cut through a line of enemies
+  laser: {
+    width: 6,
+    height: 30,
+    speed: 0.8,
+    damage: 1.2,
+    cooldown: 600,
+    rapidFireCooldown: 250,
+    chargeCooldown: 120,
+    charge: { width: 1, height: 8, speed: 0.05, damage: 0.3 },
+    multiShot: { count: 2, spacing: 16, spread: 0 },
+    pierce: { limit: 3, perCharge: 1 },
+  },
+  // Slow blobs that bend towards targets and fan out under multiShot
+  plasma: {
+    width: 14,
+    height: 14,
+    speed: 0.45,
+    damage: 1.5,
+    cooldown: 450,
+    rapidFireCooldown: 180,
+    chargeCooldown: 100,
+    charge: { width: 3, height: 3, speed: 0, damage: 0.4 },
+    multiShot: { count: 3, spacing: 0, spread: 14 },
+    homing: { strength: 0.0004, perCharge: 0.00015 },
+  },
+  // Heavy shells that burst over a group
+  explosive: {
+    width: 16,
+    height: 16,
+    speed: 0.4,
+    damage: 2,
+    cooldown: 800,
+    rapidFireCooldown: 350,
+    chargeCooldown: 150,
+    charge: { width: 2, height: 2, speed: 0, damage: 0.5 },
+    multiShot: { count: 2, spacing: 28, spread: 6 },
+    splash: { radius: 60, perCharge: 14 },
+  },
+};
@@ -0,0 +1,328 @@
+import {
+  fireSpecial,
+  raiseShield,
+  START_SPECIAL_CHARGE,
+  updateAbilities,
+} from "./abilities";
+import { updateBoss } from "./bosses";
+import { checkCollisions } from "./collisions";
+import { moveEnemyBullets, updateEnemyFiring } from "./enemyBullets";
+import { moveEnemies } from "./enemies";
+import { detonateBomb, updateShockwave } from "./bombs";
+import { updateDrones } from "./drones";
+import { updateExplosions } from "./explosions";
+import { isGameOver, PLAYER_HEALTH, updateHealth } from "./health";
+import { savePreviousPosition } from "./loop";
+import { createPool } from "./pool";
+import { createRandom, createSeed } from "./random";
+import { createScore, updateScore } from "./scoring";
+import { getStageScript, StageScript } from "./stageScripts";
+import { startStage, updateStage } from "./stages";
+import {
+  applyPurchase,
+  collectCredits,
+  createUpgrades,
+  isBulletTypeUnlocked,
+} from "./upgrades";
+import { moveProjectiles, updateCharging } from "./projectiles";
+import {
+  getTimeScale,
+  movePowerUps,
+  updatePowerUpSpawning,
+  updatePowerUps,
+} from "./powerUps";
+import {
+  BulletType,
+  Enemy,
+  EnemyBullet,
+  GameEvent,
+  GameInput,
+  GameWorld,
+  Projectile,
+} from "./types";
+
+export const PLAYER_MAX_SPEED = 0.6; // px per ms
+export const PLAYER_ACCELERATION = 0.004; // px per ms²
+
+interface CreateWorldOptions {
+  width?: number;
+  height?: number;
+  stage?: number;
+  bulletType?: BulletType;
+  seed?: number;
+  script?: StageScript; // Play this instead of the stage's own script
+  unlocked?: BulletType[]; // Bullet types available from the start, all if not given
+}
+
+// Create a fresh world for a new game
+export const createWorld = ({
+  width = 0,
+  height = 0,
+  stage = 1,
+  bulletType = "standard",
+  seed = createSeed(),
+  script = getStageScript(stage),
+  unlocked,
+}: CreateWorldOptions = {}): GameWorld => {
+  const upgrades = createUpgrades(unlocked);
+  const world: GameWorld = {
+    rng: createRandom(seed),
+    lastId: 0,
+    width: 0,
+    height: 0,
+    stage,
+    tick: 0,
+    time: 0,
+    stageTimer: 0,
+    stageRun: null,
+    gameOverTick: null,
+    enemySpawnTimer: 0,
+    powerUpSpawnTimer: 0,
+    dropPityTimer: 0,
+    chargeStartTime: null,
+    currentChargeLevel: 0,
+    player: {
+      x: 0,
+      y: 0,
+      width: 60,
+      height: 60,
+      cooldown: 500, // milliseconds
+      currentCooldown: 0,
+      currentBulletType: isBulletTypeUnlocked(upgrades, bulletType)
+        ? bulletType
+        : "standard",
+      velocityX: 0,
+      shieldCooldown: 0,
+      specialCooldown: 0,
+      specialCharge: START_SPECIAL_CHARGE,
+      health: PLAYER_HEALTH,
+      maxHealth: PLAYER_HEALTH,
+      powerUps: {},
+      upgrades,
+    },
+    enemies: [],
+    projectiles: [],
+    enemyBullets: [],
+    boss: null,
+    powerUps: [],
+    explosions: [],
+    shockwave: null,
+    scoring: createScore(),
+    scorePopups: [],
+    events: [],
+    pools: {
+      enemies: createPool(() => ({}) as Enemy),
+      projectiles: createPool(() => ({}) as Projectile),
+      enemyBullets: createPool(() => ({}) as EnemyBullet),
+    },
+  };
+
+  resizeWorld(world, width, height);
+  startStage(world, script);
+  return world;
+};
+
+// Create an empty input
+export const createInput = (): GameInput => ({
+  targetX: null,
+  moveAxis: 0,
+  firePressed: false,
+  fireReleased: false,
+  specialFire: false,
+  shield: false,
+  bomb: false,
+  bulletType: null,
+  stage: null,
+  resize: null,
+  purchases: [],
+});
+
+// Whether an input carries anything for the world to act on
+export const isInputEmpty = (input: GameInput) =>
+  input.targetX === null &&
+  input.moveAxis === 0 &&
+  !input.firePressed &&
+  !input.fireReleased &&
+  !input.specialFire &&
+  !input.shield &&
+  !input.bomb &&
+  input.bulletType === null &&
+  input.stage === null &&
+  input.resize === null &&
+  input.purchases.length === 0;
+
+// Reset an input after the world has consumed it, keeping held movement
+export const clearInput = (input: GameInput) => {
+  Object.assign(input, createInput(), { moveAxis: input.moveAxis });
+};
+
+// Resize the playfield and put the player back at bottom center
+export const resizeWorld = (
+  world: GameWorld,
+  width: number,
+  height: number,
+) => {
+  const { player } = world;
+  world.width = width;
+  world.height = height;
+  player.x = width / 2 - player.width / 2;
+  player.y = height - player.height - 10;
+};
+
+// Whether the world can move on to a stage: only the one after a stage that
+// has been cleared, so a run can't skip ahead to stages it never reached
+export const canEnterStage = (world: GameWorld, stage: number) =>
+  Boolean(world.stageRun?.cleared) && stage === world.stage + 1;
+
+// Move to another stage and start its script
+export const setStage = (world: GameWorld, stage: number) => {
+  world.stage = stage;
+  startStage(world, getStageScript(stage));
+};
+
+// Handle player movement
+const movePlayer = (world: GameWorld, newX: number) => {
+  if (!world.width) return;
+
+  // Ensure player stays within canvas bounds
+  world.player.x = Math.max(
+    0,
+    Math.min(world.width - world.player.width, newX),
+  );
+};
+
+// Accelerate towards the held direction, or slow down when nothing is held
+const updatePlayerVelocity = (
+  world: GameWorld,
+  moveAxis: number,
+  deltaTime: number,
+) => {
+  const { player } = world;
+  const targetVelocity = moveAxis * PLAYER_MAX_SPEED;
+  const change = PLAYER_ACCELERATION * deltaTime;
+
+  player.velocityX =
+    player.velocityX < targetVelocity
+      ? Math.min(targetVelocity, player.velocityX + change)
+      : Math.max(targetVelocity, player.velocityX - change);
+
+  if (player.velocityX === 0) return;
+
+  const newX = player.x + player.velocityX * deltaTime;
+  movePlayer(world, newX);
+
+  // Stop dead against the edges
+  if (player.x !== newX) {
+    player.velocityX = 0;
+  }
+};
+
+// Apply the player's input to the world
+const applyInput = (world: GameWorld, input: GameInput) => {
+  const { player } = world;
+
+  if (input.resize) {
+    resizeWorld(world, input.resize.width, input.resize.height);
+  }
+
+  if (input.stage !== null && canEnterStage(world, input.stage)) {
+    setStage(world, input.stage);
+  }
+
+  if (input.targetX !== null) {
+    movePlayer(world, input.targetX);
+    player.velocityX = 0;
+  }
+
+  // Buy before switching ammo so a newly unlocked type can be picked at once
+  input.purchases.forEach((id) => applyPurchase(world, id));
+
+  if (
+    input.bulletType &&
+    isBulletTypeUnlocked(player.upgrades, input.bulletType)
+  ) {
+    player.currentBulletType = input.bulletType;
+  }
+
+  updateCharging(world, input);
+
+  // Abilities that are cooling down or short of charge ignore the press
+  if (input.specialFire) fireSpecial(world);
+  if (input.shield) raiseShield(world);
+  if (input.bomb) detonateBomb(world);
+};
+
+// Advance the world by deltaTime milliseconds and return what happened
+export const step = (
+  world: GameWorld,
+  deltaTime: number,
+  input: GameInput = createInput(),
+): GameEvent[] => {
+  const { player } = world;
+  world.events = [];
+  world.tick += 1;
+  world.time += deltaTime;
+
+  // Nothing more happens once the run is over
+  if (isGameOver(world)) return world.events;
+
+  // Remember positions so the renderer can interpolate between ticks
+  savePreviousPosition(player);
+  world.enemies.forEach(savePreviousPosition);
+  world.projectiles.forEach(savePreviousPosition);
+  world.enemyBullets.forEach(savePreviousPosition);
+  if (world.boss) savePreviousPosition(world.boss);
+  world.powerUps.forEach(savePreviousPosition);
+
+  applyInput(world, input);
+  updatePlayerVelocity(world, input.moveAxis, deltaTime);
+
+  // Run the stage script: spawning, bosses and the win condition
+  updateStage(world, deltaTime);
+
+  // Handle power-up spawning
+  updatePowerUpSpawning(world, deltaTime);
+
+  // Update player cooldown
+  player.currentCooldown = Math.max(0, player.currentCooldown - deltaTime);
+
+  // Drop the shield after its duration and let the abilities cool down
+  updateAbilities(player, deltaTime);
+
+  // Update power-up durations
+  updatePowerUps(player, deltaTime);
+
+  // Enemies and their bullets run slower in slow motion
+  const enemyDeltaTime = deltaTime * getTimeScale(player);
+
+  // Move enemies
+  moveEnemies(world, enemyDeltaTime);
+  updateBoss(world, enemyDeltaTime);
+
+  // Let enemies fire, then move their bullets
+  updateEnemyFiring(world, enemyDeltaTime);
+  moveEnemyBullets(world, enemyDeltaTime);
+
+  // Let helper drones fire, then move projectiles
+  updateDrones(world, deltaTime);
+  moveProjectiles(world, deltaTime);
+
+  // Move power-ups
+  movePowerUps(world, deltaTime);
+
+  // Let earlier blasts fade before new ones go off
+  updateExplosions(world, deltaTime);
+  updateShockwave(world, deltaTime);
+
+  // Check collisions
+  checkCollisions(world);
+
+  // Take health for the hits, which may end the run
+  updateHealth(world);
+
+  // Score and pay for what was destroyed
+  updateScore(world, deltaTime);
+  collectCredits(world);
+
+  return world.events;
+};
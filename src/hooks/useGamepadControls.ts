@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { GameCommand } from "../game/commands";
+import {
+  applyDeadzone,
+  createButtonTracker,
+  GAMEPAD_BUTTONS,
+  TRIGGER_THRESHOLD,
+  watchGamepad,
+} from "../lib/gamepad";
+
+interface UseGamepadControlsProps {
+  dispatch: (command: GameCommand) => void;
+  canControl: boolean;
+  onPause?: () => void;
+}
+
+// Turns a gamepad into the same game commands as the keyboard and pointer:
+// the left stick sets the turret velocity and holding the right trigger
+// charges a shot that fires on release.
+export const useGamepadControls = ({
+  dispatch,
+  canControl,
+  onPause,
+}: UseGamepadControlsProps) => {
+  // The poll loop is started once, so it reads the latest props from here
+  const propsRef = useRef({ dispatch, canControl, onPause });
+  propsRef.current = { dispatch, canControl, onPause };
+
+  useEffect(() => {
+    const buttons = createButtonTracker();
+    let moveAxis = 0;
+    let triggerHeld = false;
+
+    // Only send the axis when the pad changes so the keyboard isn't overridden
+    const setMoveAxis = (axis: number) => {
+      if (axis === moveAxis) return;
+      moveAxis = axis;
+      propsRef.current.dispatch({ type: "moveAxis", axis });
+    };
+
+    const handlePoll = (pad: Gamepad) => {
+      const { dispatch, canControl, onPause } = propsRef.current;
+
+      if (buttons.justPressed(pad, GAMEPAD_BUTTONS.start)) onPause?.();
+
+      if (canControl) {
+        // Two decimals is plenty of precision and keeps replays small
+        setMoveAxis(Math.round(applyDeadzone(pad.axes[0] ?? 0) * 100) / 100);
+
+        const triggerDown =
+          (pad.buttons[GAMEPAD_BUTTONS.rightTrigger]?.value ?? 0) >
+          TRIGGER_THRESHOLD;
+        if (triggerDown && !triggerHeld) dispatch({ type: "fireStart" });
+        if (!triggerDown && triggerHeld) dispatch({ type: "fireRelease" });
+        triggerHeld = triggerDown;
+
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.a)) {
+          dispatch({ type: "specialFire" });
+        }
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.b)) {
+          dispatch({ type: "shield" });
+        }
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.y)) {
+          dispatch({ type: "bomb" });
+        }
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.leftBumper)) {
+          dispatch({ type: "cycleBulletType", direction: -1 });
+        }
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.rightBumper)) {
+          dispatch({ type: "cycleBulletType", direction: 1 });
+        }
+      } else {
+        // Controls resume from rest, e.g. after unpausing
+        moveAxis = 0;
+        triggerHeld = false;
+      }
+
+      buttons.update(pad);
+    };
+
+    // Stop moving if the pad is unplugged mid-game
+    const handleConnectionChange = (connected: boolean) => {
+      if (!connected) setMoveAxis(0);
+    };
+
+    return watchGamepad(handlePoll, handleConnectionChange);
+  }, []);
+};
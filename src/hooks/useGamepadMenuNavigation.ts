@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  createButtonTracker,
+  GAMEPAD_BUTTONS,
+  watchGamepad,
+} from "../lib/gamepad";
+
+// How far the stick is pushed before it counts as a menu step
+const STICK_STEP_THRESHOLD = 0.5;
+
+// Buttons the gamepad can move between: those in an open dialog, otherwise
+// those in a menu marked with data-gamepad-menu
+const getMenuButtons = () => {
+  const scope =
+    document.querySelector('[role="dialog"]') ??
+    document.querySelector("[data-gamepad-menu]");
+  if (!scope) return [];
+
+  return Array.from(
+    scope.querySelectorAll<HTMLElement>("button:not([disabled])"),
+  ).filter((button) => button.offsetParent !== null);
+};
+
+// Move focus through the menu buttons with the d-pad or left stick
+const moveFocus = (direction: 1 | -1) => {
+  const buttons = getMenuButtons();
+  if (buttons.length === 0) return;
+
+  const current = buttons.indexOf(document.activeElement as HTMLElement);
+  const next =
+    current === -1
+      ? 0
+      : (current + direction + buttons.length) % buttons.length;
+  buttons[next].focus();
+};
+
+// Lets a gamepad drive the menus while the game isn't being played, and
+// reports whether a gamepad is plugged in
+export const useGamepadMenuNavigation = (enabled: boolean) => {
+  const [connected, setConnected] = useState(false);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const buttons = createButtonTracker();
+    let stickDirection = 0;
+
+    const handlePoll = (pad: Gamepad) => {
+      if (enabledRef.current) {
+        const stickY = pad.axes[1] ?? 0;
+        const newStickDirection =
+          Math.abs(stickY) > STICK_STEP_THRESHOLD ? Math.sign(stickY) : 0;
+
+        if (
+          buttons.justPressed(pad, GAMEPAD_BUTTONS.dpadUp) ||
+          (newStickDirection === -1 && stickDirection !== -1)
+        ) {
+          moveFocus(-1);
+        }
+        if (
+          buttons.justPressed(pad, GAMEPAD_BUTTONS.dpadDown) ||
+          (newStickDirection === 1 && stickDirection !== 1)
+        ) {
+          moveFocus(1);
+        }
+        stickDirection = newStickDirection;
+
+        if (buttons.justPressed(pad, GAMEPAD_BUTTONS.a)) {
+          const focused = document.activeElement;
+          if (
+            focused instanceof HTMLElement &&
+            getMenuButtons().includes(focused)
+          ) {
+            focused.click();
+          } else {
+            moveFocus(1);
+          }
+        }
+      }
+
+      buttons.update(pad);
+    };
+
+    return watchGamepad(handlePoll, setConnected);
+  }, []);
+
+  return connected;
+};
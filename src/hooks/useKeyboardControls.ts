@@ -0,0 +1,114 @@
+import { useEffect, useRef } from "react";
+import { GameCommand } from "../game/commands";
+import {
+  BULLET_TYPE_ACTIONS,
+  GameAction,
+  getActionForKey,
+  KeyBindings,
+} from "../lib/keyBindings";
+
+interface UseKeyboardControlsProps {
+  dispatch: (command: GameCommand) => void;
+  bindings: KeyBindings;
+  canControl: boolean;
+  onPause?: () => void;
+}
+
+// Form fields and anything else the user can type into
+const EDITABLE_SELECTOR =
+  "input, textarea, select, [contenteditable]:not([contenteditable='false'])";
+
+// Whether a key press belongs to something being typed into
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof Element && target.closest(EDITABLE_SELECTOR) !== null;
+
+// Turns bound keys into game commands. Movement is held state so the
+// simulation can accelerate the turret; everything else is a one-shot press.
+export const useKeyboardControls = ({
+  dispatch,
+  bindings,
+  canControl,
+  onPause,
+}: UseKeyboardControlsProps) => {
+  // The listeners are attached once, so they read the latest props from here
+  const propsRef = useRef({ dispatch, bindings, canControl, onPause });
+  propsRef.current = { dispatch, bindings, canControl, onPause };
+
+  useEffect(() => {
+    const held = new Set<GameAction>();
+
+    const updateMoveAxis = () => {
+      propsRef.current.dispatch({
+        type: "moveAxis",
+        axis: (held.has("moveRight") ? 1 : 0) - (held.has("moveLeft") ? 1 : 0),
+      });
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave typing in form fields alone
+      if (isEditableTarget(e.target)) return;
+
+      const { dispatch, bindings, canControl, onPause } = propsRef.current;
+      const action = getActionForKey(bindings, e.code);
+      if (!action) return;
+
+      if (action === "pause") {
+        e.preventDefault();
+        if (!e.repeat) onPause?.();
+        return;
+      }
+      // Outside of play, keys keep their usual meaning in the menus
+      if (!canControl) return;
+      e.preventDefault();
+
+      held.add(action);
+      if (action === "moveLeft" || action === "moveRight") {
+        updateMoveAxis();
+        return;
+      }
+      if (e.repeat) return;
+
+      const bulletType = BULLET_TYPE_ACTIONS[action];
+      if (bulletType) {
+        dispatch({ type: "selectBulletType", bulletType });
+      } else if (action === "fire") {
+        // Start charging; releasing the key fires
+        dispatch({ type: "fireStart" });
+      } else if (action === "special") {
+        dispatch({ type: "specialFire" });
+      } else if (action === "shield") {
+        dispatch({ type: "shield" });
+      } else if (action === "bomb") {
+        dispatch({ type: "bomb" });
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const { dispatch, bindings, canControl } = propsRef.current;
+      const action = getActionForKey(bindings, e.code);
+      if (!action || !held.delete(action)) return;
+
+      if (action === "moveLeft" || action === "moveRight") {
+        updateMoveAxis();
+      } else if (action === "fire" && canControl) {
+        dispatch({ type: "fireRelease" });
+      }
+    };
+
+    // Keys released while the window is in the background never send keyup
+    const handleBlur = () => {
+      held.clear();
+      updateMoveAxis();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+};
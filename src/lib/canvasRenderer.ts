@@ -0,0 +1,619 @@
+import { getBossDefinition } from "../game/bossDefinitions";
+import { BOSS_DEFEAT_TIME, getWeakPointBox } from "../game/bosses";
+import { getBulletPattern } from "../game/bulletPatterns";
+import { DRONE_SIZE, getDronePositions } from "../game/drones";
+import { getArchetype } from "../game/enemyArchetypes";
+import { EXPLOSION_TIME } from "../game/explosions";
+import { interpolate } from "../game/loop";
+import { MAX_CHARGE_LEVEL } from "../game/projectiles";
+import { POPUP_TIME } from "../game/scoring";
+import {
+  Enemy,
+  EnemyBullet,
+  Explosion,
+  GameWorld,
+  PowerUp,
+  Projectile,
+  ScorePopup,
+  Shockwave,
+} from "../game/types";
+
+export interface DrawOptions {
+  alpha: number; // Interpolation between the last two simulation ticks
+  now: number; // Wall clock time for purely cosmetic animation
+  debug?: boolean;
+  fps?: number;
+}
+
+// Same palette the DOM renderer gets from Tailwind
+const CHARGE_COLORS = [
+  "#facc15", // Level 0
+  "#fb923c", // Level 1
+  "#f87171", // Level 2
+  "#ef4444", // Level 3
+  "#dc2626", // Level 4
+  "#b91c1c", // Level 5
+];
+const CHARGE_GLOWS = [
+  { color: "rgba(250,204,21,0.5)", blur: 5 },
+  { color: "rgba(251,146,60,0.5)", blur: 6 },
+  { color: "rgba(248,113,113,0.6)", blur: 7 },
+  { color: "rgba(239,68,68,0.6)", blur: 8 },
+  { color: "rgba(220,38,38,0.7)", blur: 9 },
+  { color: "rgba(185,28,28,0.7)", blur: 10 },
+];
+
+const BULLET_STYLES = {
+  standard: { color: "#facc15", glow: "rgba(250,204,21,0.5)", blur: 5 },
+  laser: { color: "#22d3ee", glow: "rgba(34,211,238,0.6)", blur: 8 },
+  plasma: { color: "#4ade80", glow: "rgba(74,222,128,0.6)", blur: 8 },
+  explosive: { color: "#f97316", glow: "rgba(249,115,22,0.6)", blur: 8 },
+};
+
+const POWER_UP_STYLES: Record<
+  PowerUp["type"],
+  { color: string; icon: string }
+> = {
+  rapidFire: { color: "#facc15", icon: "⚡" },
+  shield: { color: "#22d3ee", icon: "🛡️" },
+  multiShot: { color: "#c084fc", icon: "🔱" },
+  bomb: { color: "#f87171", icon: "💣" },
+  magnet: { color: "#f472b6", icon: "🧲" },
+  slowMotion: { color: "#818cf8", icon: "⏳" },
+  drones: { color: "#34d399", icon: "🛸" },
+  piercing: { color: "#fb923c", icon: "🎯" },
+  health: { color: "#22c55e", icon: "❤️" },
+};
+
+const spriteImages = new Map<string, HTMLImageElement>();
+
+// Sprite image, loaded on first use. Enemies are drawn in their colour until it arrives.
+const getSpriteImage = (url: string | undefined) => {
+  if (!url || typeof Image === "undefined") return null;
+
+  let image = spriteImages.get(url);
+  if (!image) {
+    image = new Image();
+    image.src = url;
+    spriteImages.set(url, image);
+  }
+  return image.complete && image.naturalWidth ? image : null;
+};
+
+// Tailwind's animate-pulse, as an opacity multiplier
+const pulse = (now: number) =>
+  0.75 + 0.25 * Math.cos((now / 2000) * Math.PI * 2);
+
+const roundRect = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number | number[],
+) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+};
+
+// Make the canvas backing store match its CSS size and the device pixel ratio
+export const resizeCanvas = (canvas: HTMLCanvasElement) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return ratio;
+};
+
+const drawPlayer = (
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  { alpha, now }: DrawOptions,
+) => {
+  const { player } = world;
+  const { x, y } = interpolate(player, alpha);
+  const { width, height } = player;
+
+  // Player body with glow effect
+  ctx.save();
+  const gradient = ctx.createLinearGradient(0, y, 0, y + height);
+  gradient.addColorStop(0, "#4299e1");
+  gradient.addColorStop(1, "#3182ce");
+  ctx.fillStyle = gradient;
+  ctx.shadowColor = "rgba(66, 153, 225, 0.6)";
+  ctx.shadowBlur = 20;
+  roundRect(ctx, x, y, width, height, [8, 8, 0, 0]);
+  ctx.fill();
+  ctx.restore();
+
+  // Inner details
+  ctx.save();
+  ctx.globalAlpha = 0.7;
+  ctx.fillStyle = "#1d4ed8";
+  roundRect(ctx, x + 8, y + 8, width - 16, height - 16, [6, 6, 0, 0]);
+  ctx.fill();
+  ctx.globalAlpha = 0.5;
+  ctx.fillStyle = "#93c5fd";
+  ctx.beginPath();
+  ctx.ellipse(
+    x + width / 2,
+    y + height / 2,
+    width * 0.2,
+    height * 0.1,
+    0,
+    0,
+    Math.PI * 2,
+  );
+  ctx.fill();
+  ctx.restore();
+
+  // Weapon barrel
+  ctx.fillStyle = "#374151";
+  roundRect(ctx, x + width / 2 - 8, y - 10, 16, 40, [6, 6, 0, 0]);
+  ctx.fill();
+
+  // Cooldown indicator
+  if (player.currentCooldown > 0) {
+    ctx.save();
+    ctx.globalAlpha = 0.7;
+    ctx.fillStyle = "#ef4444";
+    ctx.fillRect(
+      x,
+      y + height - 6,
+      (player.currentCooldown / player.cooldown) * width,
+      6,
+    );
+    ctx.restore();
+  }
+
+  // Charge indicator
+  if (world.chargeStartTime !== null && world.currentChargeLevel > 0) {
+    const isFull = world.currentChargeLevel >= MAX_CHARGE_LEVEL;
+    ctx.fillStyle = "#1f2937";
+    roundRect(ctx, x, y - 20, width, 10, 5);
+    ctx.fill();
+    ctx.save();
+    ctx.globalAlpha = isFull ? pulse(now) : 1;
+    ctx.fillStyle = isFull ? "#dc2626" : "#fb923c";
+    roundRect(
+      ctx,
+      x,
+      y - 20,
+      (world.currentChargeLevel / MAX_CHARGE_LEVEL) * width,
+      10,
+      5,
+    );
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Helper drones circling the player
+  getDronePositions({ ...player, x, y }, world.time).forEach((drone) => {
+    ctx.save();
+    ctx.shadowColor = "rgba(52,211,153,0.7)";
+    ctx.shadowBlur = 8;
+    ctx.fillStyle = POWER_UP_STYLES.drones.color;
+    ctx.beginPath();
+    ctx.arc(
+      drone.x + DRONE_SIZE / 2,
+      drone.y + DRONE_SIZE / 2,
+      DRONE_SIZE / 2,
+      0,
+      Math.PI * 2,
+    );
+    ctx.fill();
+    ctx.restore();
+  });
+
+  // Shield effect
+  if (player.powerUps.shield?.active || player.shieldActive) {
+    ctx.save();
+    ctx.globalAlpha = 0.7 * pulse(now);
+    ctx.strokeStyle = "#22d3ee";
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.ellipse(
+      x + width / 2,
+      y + height / 2,
+      width / 2 + 13,
+      height / 2 + 13,
+      0,
+      0,
+      Math.PI * 2,
+    );
+    ctx.stroke();
+    ctx.restore();
+  }
+};
+
+const drawProjectile = (
+  ctx: CanvasRenderingContext2D,
+  projectile: Projectile,
+  index: number,
+  { alpha, now }: DrawOptions,
+) => {
+  const { x, y } = interpolate(projectile, alpha);
+  const { width, height } = projectile;
+  let color = BULLET_STYLES.standard.color;
+  let glow = BULLET_STYLES.standard.glow;
+  let blur = BULLET_STYLES.standard.blur;
+  let offsetY = 0;
+  let opacity = 1;
+
+  if (projectile.isSpecial) {
+    color = "#a855f7";
+    glow = "rgba(147,51,234,0.7)";
+    blur = 10;
+    opacity = pulse(now);
+  } else if (projectile.isCharged) {
+    // Different colors based on charge level
+    const level = Math.min(projectile.chargeLevel || 0, 5);
+    color = CHARGE_COLORS[level];
+    glow = CHARGE_GLOWS[level].color;
+    blur = CHARGE_GLOWS[level].blur;
+  } else {
+    const style = BULLET_STYLES[projectile.bulletType || "standard"];
+    color = style.color;
+    glow = style.glow;
+    blur = style.blur;
+    if (projectile.bulletType === "plasma") {
+      offsetY = Math.abs(Math.sin(now / 160)) * -6; // animate-bounce
+    }
+  }
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.translate(x + width / 2, y + height / 2 + offsetY);
+
+  // Spraying effect for plasma and special shots
+  if (projectile.bulletType === "plasma" || projectile.isSpecial) {
+    ctx.rotate((Math.sin(now * 0.01 + index) * 15 * Math.PI) / 180);
+  }
+
+  ctx.shadowColor = glow;
+  ctx.shadowBlur = blur;
+  ctx.fillStyle = color;
+  roundRect(ctx, -width / 2, -height / 2, width, height, 2);
+  ctx.fill();
+
+  // Explosive rounds get an expanding ring like animate-ping
+  if (projectile.bulletType === "explosive" && !projectile.isCharged) {
+    const progress = (now % 1000) / 1000;
+    ctx.globalAlpha = 1 - progress;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, 0, (width / 2) * (1 + progress), 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+const drawEnemy = (
+  ctx: CanvasRenderingContext2D,
+  enemy: Enemy,
+  { alpha, now }: DrawOptions,
+) => {
+  const { x, y } = interpolate(enemy, alpha);
+  const { width, height } = enemy;
+  const archetype = getArchetype(enemy.type);
+  const image = getSpriteImage(archetype.sprite.image);
+
+  ctx.save();
+  // Carriers glow so the player knows what to shoot for
+  if (enemy.dropsPowerUp) {
+    ctx.shadowColor = `rgba(250,204,21,${0.8 * pulse(now)})`;
+    ctx.shadowBlur = 14;
+  }
+  roundRect(ctx, x, y, width, height, 6);
+  ctx.fillStyle = archetype.sprite.color;
+  ctx.fill();
+  if (image) {
+    ctx.clip();
+    ctx.drawImage(image, x, y, width, height);
+  }
+  ctx.restore();
+
+  // Health bar for enemies with more than 1 health
+  if (enemy.health > 1) {
+    // Capped at full, as some enemies (the benchmark's) carry extra health
+    const share = Math.min(enemy.health / archetype.health, 1);
+    ctx.fillStyle = "#1f2937";
+    roundRect(ctx, x, y - 8, width, 8, 4);
+    ctx.fill();
+    ctx.fillStyle = "#22c55e";
+    roundRect(ctx, x, y - 8, share * width, 8, 4);
+    ctx.fill();
+  }
+};
+
+// The boss with its weak points, flashing in on its intro and breaking up
+// in a string of explosions when beaten
+const drawBoss = (
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  { alpha, now }: DrawOptions,
+) => {
+  const { boss } = world;
+  if (!boss) return;
+
+  const definition = getBossDefinition(boss.id);
+  const { x, y } = interpolate(boss, alpha);
+  const offsetX = x - boss.x;
+  const offsetY = y - boss.y;
+  const image = getSpriteImage(definition.sprite.image);
+
+  ctx.save();
+  if (boss.state === "defeated") {
+    ctx.globalAlpha = Math.max(1 - boss.stateTime / BOSS_DEFEAT_TIME, 0);
+  }
+
+  roundRect(ctx, x, y, boss.width, boss.height, 16);
+  ctx.fillStyle = definition.sprite.color;
+  ctx.shadowColor = definition.sprite.color;
+  ctx.shadowBlur = 20;
+  ctx.fill();
+  ctx.shadowBlur = 0;
+  if (image) {
+    ctx.clip();
+    ctx.drawImage(image, x, y, boss.width, boss.height);
+  }
+  ctx.restore();
+
+  ctx.save();
+  definition.weakPoints.forEach((point, index) => {
+    const box = getWeakPointBox(boss, point);
+    const alive = boss.weakPointHealth[index] > 0;
+    ctx.fillStyle = alive ? "#f97316" : "#1f2937";
+    ctx.globalAlpha = alive ? pulse(now * 3) : 0.8;
+    roundRect(ctx, box.x + offsetX, box.y + offsetY, box.width, box.height, 8);
+    ctx.fill();
+  });
+  ctx.restore();
+
+  if (boss.state === "intro") {
+    ctx.save();
+    ctx.globalAlpha = Math.floor(now / 300) % 2 ? 1 : 0.4;
+    ctx.font = "bold 32px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "#ef4444";
+    ctx.fillText("WARNING", world.width / 2, world.height / 2 - 20);
+    ctx.font = "bold 18px sans-serif";
+    ctx.fillText(definition.name, world.width / 2, world.height / 2 + 16);
+    ctx.restore();
+  }
+
+  if (boss.state === "defeated") {
+    // A few staggered blasts across the hull
+    ctx.save();
+    for (let i = 0; i < 5; i++) {
+      const progress = ((boss.stateTime + i * 400) % 1000) / 1000;
+      const blastX = x + (((i * 37) % 100) / 100) * boss.width;
+      const blastY = y + (((i * 61) % 100) / 100) * boss.height;
+      ctx.globalAlpha = 1 - progress;
+      ctx.fillStyle = i % 2 ? "#fde047" : "#f97316";
+      ctx.beginPath();
+      ctx.arc(blastX, blastY, 10 + progress * 40, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+};
+
+// Enemy bullets are glowing dots in their pattern's colour
+const drawEnemyBullet = (
+  ctx: CanvasRenderingContext2D,
+  bullet: EnemyBullet,
+  { alpha }: DrawOptions,
+) => {
+  const { x, y } = interpolate(bullet, alpha);
+  const radius = bullet.width / 2;
+  const { color } = getBulletPattern(bullet.pattern);
+
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 8;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x + radius, y + bullet.height / 2, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#ffffff";
+  ctx.beginPath();
+  ctx.arc(x + radius, y + bullet.height / 2, radius / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+// An explosive round's blast, a ring growing out to its radius and fading
+const drawExplosion = (ctx: CanvasRenderingContext2D, explosion: Explosion) => {
+  const progress = explosion.age / EXPLOSION_TIME;
+  const radius = explosion.radius * (0.4 + 0.6 * progress);
+
+  ctx.save();
+  ctx.globalAlpha = 1 - progress;
+  ctx.fillStyle = "rgba(249,115,22,0.35)";
+  ctx.strokeStyle = BULLET_STYLES.explosive.color;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.arc(explosion.x, explosion.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+// A bomb's shockwave, a bright ring thinning out as it spreads
+const drawShockwave = (ctx: CanvasRenderingContext2D, shockwave: Shockwave) => {
+  const progress = shockwave.radius / shockwave.maxRadius;
+
+  ctx.save();
+  ctx.globalAlpha = 1 - progress * 0.8;
+  ctx.strokeStyle = "#e0f2fe";
+  ctx.shadowColor = "#38bdf8";
+  ctx.shadowBlur = 20;
+  ctx.lineWidth = 12 - progress * 8;
+  ctx.beginPath();
+  ctx.arc(shockwave.x, shockwave.y, shockwave.radius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Points rising from a kill and fading, with the bonus earned beneath
+const drawScorePopup = (ctx: CanvasRenderingContext2D, popup: ScorePopup) => {
+  const progress = popup.age / POPUP_TIME;
+  const y = popup.y - progress * 30;
+
+  ctx.save();
+  ctx.globalAlpha = 1 - progress;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = popup.label ? "#facc15" : "#ffffff";
+  ctx.font = "bold 14px sans-serif";
+  ctx.fillText(`+${popup.points}`, popup.x, y);
+  if (popup.label) {
+    ctx.font = "bold 10px sans-serif";
+    ctx.fillText(popup.label, popup.x, y + 14);
+  }
+  ctx.restore();
+};
+
+const drawPowerUp = (
+  ctx: CanvasRenderingContext2D,
+  powerUp: PowerUp,
+  { alpha }: DrawOptions,
+) => {
+  const { x, y } = interpolate(powerUp, alpha);
+  const { color, icon } = POWER_UP_STYLES[powerUp.type];
+  const radius = powerUp.width / 2;
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x + radius, y + powerUp.height / 2, radius, 0, Math.PI * 2);
+  ctx.fill();
+  drawIcon(ctx, icon, x + radius, y + powerUp.height / 2, 16);
+};
+
+const drawIcon = (
+  ctx: CanvasRenderingContext2D,
+  icon: string,
+  x: number,
+  y: number,
+  size: number,
+) => {
+  ctx.font = `${size}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(icon, x, y);
+};
+
+// Active power-up indicators in the top right corner
+const drawActivePowerUps = (
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  { now }: DrawOptions,
+) => {
+  const active = (
+    ["rapidFire", "multiShot", "magnet", "drones", "piercing"] as const
+  ).filter((type) => world.player.powerUps[type]?.active);
+
+  active.forEach((type, index) => {
+    const { color, icon } = POWER_UP_STYLES[type];
+    const x = world.width - 8 - 16;
+    const y = 8 + 16 + index * 40;
+
+    ctx.save();
+    ctx.globalAlpha = pulse(now);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(x, y, 16, 0, Math.PI * 2);
+    ctx.fill();
+    drawIcon(ctx, icon, x, y, 12);
+    ctx.restore();
+  });
+};
+
+// Hitboxes and frame stats for tuning
+const drawDebugOverlay = (
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  { alpha, fps }: DrawOptions,
+) => {
+  const outline = (
+    entity: { x: number; y: number; width: number; height: number },
+    color: string,
+  ) => {
+    const { x, y } = interpolate(entity, alpha);
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, y, entity.width, entity.height);
+  };
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  outline(world.player, "#38bdf8");
+  world.enemies.forEach((enemy) => outline(enemy, "#f43f5e"));
+  if (world.boss) {
+    const { boss } = world;
+    outline(boss, "#f43f5e");
+    getBossDefinition(boss.id).weakPoints.forEach((point) =>
+      outline(getWeakPointBox(boss, point), "#fb923c"),
+    );
+  }
+  world.projectiles.forEach((projectile) => outline(projectile, "#fde047"));
+  world.enemyBullets.forEach((bullet) => outline(bullet, "#fb923c"));
+  world.powerUps.forEach((powerUp) => outline(powerUp, "#a3e635"));
+
+  const lines = [
+    `FPS ${Math.round(fps ?? 0)}`,
+    `Tick ${world.tick}`,
+    `Enemies ${world.enemies.length}`,
+    `Projectiles ${world.projectiles.length}`,
+    `Enemy bullets ${world.enemyBullets.length}`,
+  ];
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(4, 4, 130, lines.length * 14 + 8);
+  ctx.font = "11px monospace";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = "#a3e635";
+  lines.forEach((line, index) => ctx.fillText(line, 10, 8 + index * 14));
+  ctx.restore();
+};
+
+// Draw the whole world onto a 2D canvas
+export const drawWorld = (
+  ctx: CanvasRenderingContext2D,
+  world: GameWorld,
+  options: DrawOptions,
+) => {
+  const ratio = resizeCanvas(ctx.canvas);
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  // Tint the playfield while slow motion holds the enemies back
+  if (world.player.powerUps.slowMotion?.active) {
+    ctx.fillStyle = "rgba(129,140,248,0.12)";
+    ctx.fillRect(0, 0, world.width, world.height);
+  }
+
+  world.enemies.forEach((enemy) => drawEnemy(ctx, enemy, options));
+  drawBoss(ctx, world, options);
+  world.powerUps.forEach((powerUp) => drawPowerUp(ctx, powerUp, options));
+  world.projectiles.forEach((projectile, index) =>
+    drawProjectile(ctx, projectile, index, options),
+  );
+  world.explosions.forEach((explosion) => drawExplosion(ctx, explosion));
+  if (world.shockwave) drawShockwave(ctx, world.shockwave);
+  drawPlayer(ctx, world, options);
+  world.enemyBullets.forEach((bullet) => drawEnemyBullet(ctx, bullet, options));
+  world.scorePopups.forEach((popup) => drawScorePopup(ctx, popup));
+  drawActivePowerUps(ctx, world, options);
+
+  if (options.debug) {
+    drawDebugOverlay(ctx, world, options);
+  }
+};
@@ -0,0 +1,10 @@
+// Save JSON text to a file on the player's device
+export const downloadJson = (json: string, fileName: string) => {
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,85 @@
+// Button indices in the standard gamepad mapping
+export const GAMEPAD_BUTTONS = {
+  a: 0,
+  b: 1,
+  x: 2,
+  y: 3,
+  leftBumper: 4,
+  rightBumper: 5,
+  leftTrigger: 6,
+  rightTrigger: 7,
+  back: 8,
+  start: 9,
+  dpadUp: 12,
+  dpadDown: 13,
+  dpadLeft: 14,
+  dpadRight: 15,
+} as const;
+
+export const STICK_DEADZONE = 0.2;
+export const TRIGGER_THRESHOLD = 0.3; // How far the trigger goes down to count as pressed
+
+// Ignore stick drift near the centre and rescale the rest back to 0..1
+export const applyDeadzone = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude < STICK_DEADZONE) return 0;
+  return (
+    (Math.sign(value) * (magnitude - STICK_DEADZONE)) / (1 - STICK_DEADZONE)
+  );
+};
+
+// The first connected gamepad, if any
+export const getGamepad = () =>
+  (navigator.getGamepads?.() ?? []).find((pad) => pad?.connected) ?? null;
+
+export const isButtonPressed = (pad: Gamepad, button: number) =>
+  pad.buttons[button]?.pressed ?? false;
+
+// Tracks which buttons went down since the previous poll
+export const createButtonTracker = () => {
+  let previous: boolean[] = [];
+
+  return {
+    justPressed: (pad: Gamepad, button: number) =>
+      isButtonPressed(pad, button) && !previous[button],
+    update: (pad: Gamepad) => {
+      previous = pad.buttons.map((button) => button.pressed);
+    },
+  };
+};
+
+// Poll the first gamepad every animation frame while one is plugged in.
+// Returns a function that stops watching.
+export const watchGamepad = (
+  onPoll: (pad: Gamepad) => void,
+  onConnectionChange: (connected: boolean) => void = () => {},
+) => {
+  let animationFrameId: number | null = null;
+
+  const poll = () => {
+    const pad = getGamepad();
+    if (!pad) {
+      animationFrameId = null;
+      onConnectionChange(false);
+      return;
+    }
+
+    onPoll(pad);
+    animationFrameId = requestAnimationFrame(poll);
+  };
+
+  const start = () => {
+    if (animationFrameId !== null || !getGamepad()) return;
+    onConnectionChange(true);
+    animationFrameId = requestAnimationFrame(poll);
+  };
+
+  // A pad that was plugged in before the page loaded may already be there
+  start();
+  window.addEventListener("gamepadconnected", start);
+
+  return () => {
+    window.removeEventListener("gamepadconnected", start);
+    if (animationFrameId !== null) cancelAnimationFrame(animationFrameId);
+  };
+};
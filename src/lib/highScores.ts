@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { parseData } from "../game/data";
+import { BULLET_TYPES } from "../game/projectiles";
+import { BulletType } from "../game/types";
+
+export const MAX_HIGH_SCORES = 10;
+export const INITIALS_LENGTH = 3;
+
+export interface HighScoreEntry {
+  id: string;
+  initials: string;
+  score: number;
+  stage: number;
+  maxCombo: number;
+  duration: number; // milliseconds of game time
+  bulletType: BulletType;
+  date: string; // ISO timestamp
+}
+
+export type NewHighScore = Omit<HighScoreEntry, "id" | "date">;
+
+const HIGH_SCORES_KEY = "drone-defense:high-scores";
+
+const highScoreSchema = z.object({
+  id: z.string(),
+  initials: z.string().length(INITIALS_LENGTH),
+  score: z.number().int().nonnegative(),
+  stage: z.number().int().positive(),
+  maxCombo: z.number().int().nonnegative(),
+  duration: z.number().nonnegative(),
+  bulletType: z.enum(BULLET_TYPES as [BulletType, ...BulletType[]]),
+  date: z.string(),
+});
+
+// Best first; ties go to whoever got there first
+const compareHighScores = (a: HighScoreEntry, b: HighScoreEntry) =>
+  b.score - a.score || a.date.localeCompare(b.date);
+
+// Load the saved table, dropping anything that doesn't look like an entry
+export const loadHighScores = (): HighScoreEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HIGH_SCORES_KEY) || "[]");
+    const parsed = z.array(z.unknown()).parse(stored);
+    return parsed
+      .flatMap((entry) => {
+        try {
+          return [
+            parseData<HighScoreEntry>(highScoreSchema, entry, "high score"),
+          ];
+        } catch {
+          return [];
+        }
+      })
+      .sort(compareHighScores)
+      .slice(0, MAX_HIGH_SCORES);
+  } catch {
+    return [];
+  }
+};
+
+// Whether a score is good enough to make the table
+export const isHighScore = (scores: HighScoreEntry[], score: number) =>
+  score > 0 &&
+  (scores.length < MAX_HIGH_SCORES || score > scores[scores.length - 1].score);
+
+// The score to beat
+export const getBestScore = (scores: HighScoreEntry[]) => scores[0]?.score ?? 0;
+
+// Add a score to the table and persist it. Returns the new table and the
+// entry's 1-based rank, or null if it didn't make the cut.
+export const addHighScore = (scores: HighScoreEntry[], score: NewHighScore) => {
+  const entry: HighScoreEntry = {
+    ...score,
+    id: crypto.randomUUID(),
+    date: new Date().toISOString(),
+  };
+  const table = [...scores, entry]
+    .sort(compareHighScores)
+    .slice(0, MAX_HIGH_SCORES);
+
+  try {
+    localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(table));
+  } catch {
+    // Storage unavailable; the table only lasts for this session
+  }
+
+  const rank = table.indexOf(entry) + 1;
+  return { scores: table, rank: rank > 0 ? rank : null };
+};
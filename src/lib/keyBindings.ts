@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { BulletType } from "../game/types";
+
+export type GameAction =
+  | "moveLeft"
+  | "moveRight"
+  | "fire"
+  | "special"
+  | "shield"
+  | "bomb"
+  | "bulletStandard"
+  | "bulletLaser"
+  | "bulletPlasma"
+  | "bulletExplosive"
+  | "pause";
+
+// Each action maps to the KeyboardEvent.code values that trigger it, so
+// bindings follow the physical key regardless of keyboard layout
+export type KeyBindings = Record<GameAction, string[]>;
+
+const KEY_BINDINGS_KEY = "drone-defense:key-bindings";
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ["ArrowLeft", "KeyA"],
+  moveRight: ["ArrowRight", "KeyD"],
+  fire: ["Space"],
+  special: ["KeyE"],
+  shield: ["KeyQ"],
+  bomb: ["KeyF"],
+  bulletStandard: ["Digit1"],
+  bulletLaser: ["Digit2"],
+  bulletPlasma: ["Digit3"],
+  bulletExplosive: ["Digit4"],
+  pause: ["Escape"],
+};
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  moveLeft: "Move left",
+  moveRight: "Move right",
+  fire: "Fire (hold to charge)",
+  special: "Special fire",
+  shield: "Shield",
+  bomb: "Detonate bomb",
+  bulletStandard: "Standard rounds",
+  bulletLaser: "Laser",
+  bulletPlasma: "Plasma",
+  bulletExplosive: "Explosive rounds",
+  pause: "Pause",
+};
+
+export const BULLET_TYPE_ACTIONS: Partial<Record<GameAction, BulletType>> = {
+  bulletStandard: "standard",
+  bulletLaser: "laser",
+  bulletPlasma: "plasma",
+  bulletExplosive: "explosive",
+};
+
+const storedBindingSchema = z.array(z.string());
+
+// Load saved bindings, falling back to the defaults for anything missing or
+// not a list of keys
+export const loadKeyBindings = (): KeyBindings => {
+  try {
+    const stored = z
+      .record(z.unknown())
+      .parse(JSON.parse(localStorage.getItem(KEY_BINDINGS_KEY) || "{}"));
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    (Object.keys(bindings) as GameAction[]).forEach((action) => {
+      const result = storedBindingSchema.safeParse(stored[action]);
+      if (result.success) bindings[action] = result.data;
+    });
+    return bindings;
+  } catch {
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+// Persist bindings for the next visit
+export const saveKeyBindings = (bindings: KeyBindings) => {
+  try {
+    localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // Storage unavailable; bindings only last for this session
+  }
+};
+
+// Find the action a key is bound to
+export const getActionForKey = (bindings: KeyBindings, code: string) =>
+  (Object.keys(bindings) as GameAction[]).find((action) =>
+    bindings[action].includes(code),
+  );
+
+// Bind a key to an action, taking it away from any other action first
+export const rebindKey = (
+  bindings: KeyBindings,
+  action: GameAction,
+  code: string,
+  slot: number,
+): KeyBindings => {
+  const next = { ...bindings };
+  (Object.keys(next) as GameAction[]).forEach((other) => {
+    next[other] = next[other].filter((key) => key !== code);
+  });
+
+  const keys = [...next[action]];
+  keys[Math.min(slot, keys.length)] = code;
+  next[action] = keys;
+  return next;
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Space: "Space",
+  Escape: "Esc",
+};
+
+// Short display name for a KeyboardEvent.code
+export const formatKey = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^(Key|Digit)/, "");
@@ -0,0 +1,183 @@
+import { startOfWeek } from "date-fns";
+import { BulletType } from "../game/types";
+import { createMemoryLeaderboard } from "./memoryLeaderboard";
+import { createSupabaseLeaderboard } from "./supabaseLeaderboard";
+
+export const LEADERBOARD_PAGE_SIZE = 10;
+
+export type LeaderboardBoard =
+  { type: "global" } | { type: "weekly" } | { type: "stage"; stage: number };
+
+// A finished run as sent to the leaderboard
+export interface ScoreSubmission {
+  id: string; // Generated on the client so a resubmitted score isn't counted twice
+  playerId: string;
+  initials: string;
+  score: number;
+  stage: number;
+  maxCombo: number;
+  duration: number; // milliseconds of game time
+  bulletType: BulletType;
+  replay: string | null; // Encoded replay of the run
+  submittedAt: string; // ISO timestamp
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  rank: number;
+  initials: string;
+  score: number;
+  stage: number;
+  maxCombo: number;
+  duration: number;
+  bulletType: BulletType;
+  date: string;
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  page: number; // 1-based
+  pageCount: number;
+  total: number;
+}
+
+export interface LeaderboardService {
+  submitScore: (submission: ScoreSubmission) => Promise<void>;
+  getScores: (
+    board: LeaderboardBoard,
+    page: number,
+    pageSize?: number,
+  ) => Promise<LeaderboardPage>;
+}
+
+export type SubmitResult = "submitted" | "queued" | "rejected";
+
+// Thrown when the leaderboard refuses a score, e.g. because its replay
+// doesn't add up to it. Resending won't help, so it isn't queued.
+export class ScoreRejectedError extends Error {}
+
+export interface QueuedLeaderboard extends Omit<
+  LeaderboardService,
+  "submitScore"
+> {
+  submitScore: (submission: ScoreSubmission) => Promise<SubmitResult>;
+  flush: () => Promise<void>;
+}
+
+const PLAYER_ID_KEY = "drone-defense:player-id";
+const SCORE_QUEUE_KEY = "drone-defense:score-queue";
+
+// Scores on the weekly board are from the current week, starting Monday
+export const getWeekStart = (now = new Date()) =>
+  startOfWeek(now, { weekStartsOn: 1 });
+
+// Number of pages needed for a board, always at least one
+export const getPageCount = (total: number, pageSize: number) =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+// Anonymous id for this device, created on first use
+export const getPlayerId = () => {
+  let playerId = localStorage.getItem(PLAYER_ID_KEY);
+  if (!playerId) {
+    playerId = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, playerId);
+  }
+  return playerId;
+};
+
+const loadQueue = (): ScoreSubmission[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SCORE_QUEUE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queue: ScoreSubmission[]) => {
+  try {
+    localStorage.setItem(SCORE_QUEUE_KEY, JSON.stringify(queue));
+  } catch {
+    // Storage unavailable; queued scores only last for this session
+  }
+};
+
+// Keep scores that couldn't be sent and send them again once the browser is
+// back online
+export const withOfflineQueue = (
+  service: LeaderboardService,
+): QueuedLeaderboard => {
+  let flushing: Promise<void> | null = null;
+
+  const enqueue = (submission: ScoreSubmission) => {
+    const queue = loadQueue().filter((queued) => queued.id !== submission.id);
+    saveQueue([...queue, submission]);
+  };
+
+  const sendQueued = async () => {
+    const sent = new Set<string>();
+    for (const submission of loadQueue()) {
+      try {
+        await service.submitScore(submission);
+        sent.add(submission.id);
+      } catch (err) {
+        if (err instanceof ScoreRejectedError) {
+          sent.add(submission.id);
+          continue;
+        }
+        // Still unreachable; try the rest next time
+        break;
+      }
+    }
+
+    // Scores may have been queued while we were sending
+    saveQueue(loadQueue().filter((queued) => !sent.has(queued.id)));
+  };
+
+  const flush = () => {
+    flushing ??= sendQueued().finally(() => {
+      flushing = null;
+    });
+    return flushing;
+  };
+
+  window.addEventListener("online", flush);
+
+  return {
+    getScores: service.getScores,
+    flush,
+    submitScore: async (submission) => {
+      if (!navigator.onLine) {
+        enqueue(submission);
+        return "queued";
+      }
+
+      try {
+        await service.submitScore(submission);
+        return "submitted";
+      } catch (err) {
+        if (err instanceof ScoreRejectedError) return "rejected";
+        enqueue(submission);
+        return "queued";
+      }
+    },
+  };
+};
+
+let leaderboard: QueuedLeaderboard | null = null;
+
+// The shared leaderboard: Supabase when it's configured, otherwise an
+// in-memory stand-in for offline development
+export const getLeaderboard = () => {
+  if (!leaderboard) {
+    const url = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    leaderboard = withOfflineQueue(
+      url && anonKey
+        ? createSupabaseLeaderboard(url, anonKey)
+        : createMemoryLeaderboard(),
+    );
+    void leaderboard.flush();
+  }
+  return leaderboard;
+};
@@ -0,0 +1,75 @@
+import { checkRun } from "../game/verification";
+import {
+  getPageCount,
+  getWeekStart,
+  LeaderboardBoard,
+  LEADERBOARD_PAGE_SIZE,
+  LeaderboardService,
+  ScoreRejectedError,
+  ScoreSubmission,
+} from "./leaderboard";
+
+// Whether a submission belongs on a board
+const isOnBoard = (
+  submission: ScoreSubmission,
+  board: LeaderboardBoard,
+  weekStart: Date,
+) => {
+  switch (board.type) {
+    case "global":
+      return true;
+    case "weekly":
+      return new Date(submission.submittedAt) >= weekStart;
+    case "stage":
+      return submission.stage === board.stage;
+  }
+};
+
+// Leaderboard kept in memory, standing in for the online one during offline
+// development and tests. Like the server, it re-runs each replay and turns
+// away scores that don't match. Starts with the given submissions, if any.
+export const createMemoryLeaderboard = (
+  initial: ScoreSubmission[] = [],
+): LeaderboardService => {
+  const submissions = new Map(
+    initial.map((submission) => [submission.id, submission]),
+  );
+
+  return {
+    submitScore: async (submission) => {
+      const rejection = checkRun(submission, submission.replay);
+      if (rejection) throw new ScoreRejectedError(rejection);
+
+      submissions.set(submission.id, submission);
+    },
+    getScores: async (board, page, pageSize = LEADERBOARD_PAGE_SIZE) => {
+      const weekStart = getWeekStart();
+      const matching = Array.from(submissions.values())
+        .filter((submission) => isOnBoard(submission, board, weekStart))
+        .sort(
+          (a, b) =>
+            b.score - a.score || a.submittedAt.localeCompare(b.submittedAt),
+        );
+      const offset = (page - 1) * pageSize;
+
+      return {
+        entries: matching
+          .slice(offset, offset + pageSize)
+          .map((submission, index) => ({
+            id: submission.id,
+            rank: offset + index + 1,
+            initials: submission.initials,
+            score: submission.score,
+            stage: submission.stage,
+            maxCombo: submission.maxCombo,
+            duration: submission.duration,
+            bulletType: submission.bulletType,
+            date: submission.submittedAt,
+          })),
+        page,
+        pageCount: getPageCount(matching.length, pageSize),
+        total: matching.length,
+      };
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { BULLET_TYPES } from "../game/projectiles";
+import { BulletType } from "../game/types";
+
+const UNLOCKS_KEY = "drone-defense:unlocks";
+
+export const DEFAULT_UNLOCKS: BulletType[] = ["standard"];
+
+const storedUnlocksSchema = z.array(
+  z.enum(BULLET_TYPES as [BulletType, ...BulletType[]]),
+);
+
+// Load the bullet types bought in earlier runs, which every new run starts
+// with, falling back to the defaults if what's saved isn't a list of them
+export const loadUnlockedBulletTypes = (): BulletType[] => {
+  try {
+    const result = storedUnlocksSchema.safeParse(
+      JSON.parse(localStorage.getItem(UNLOCKS_KEY) || "null"),
+    );
+    return result.success ? result.data : DEFAULT_UNLOCKS;
+  } catch {
+    return DEFAULT_UNLOCKS;
+  }
+};
+
+// Persist unlocked bullet types for future runs
+export const saveUnlockedBulletTypes = (unlocked: BulletType[]) => {
+  try {
+    localStorage.setItem(UNLOCKS_KEY, JSON.stringify(unlocked));
+  } catch {
+    // Storage unavailable; unlocks only last for this session
+  }
+};
@@ -0,0 +1,33 @@
+import { decodeReplay, encodeReplay, Replay } from "../game/replay";
+import { downloadJson } from "./download";
+
+const LAST_REPLAY_KEY = "drone-defense:last-replay";
+
+// Keep the most recent run so it can be watched from the replay screen
+export const saveLastReplay = (replay: Replay) => {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, encodeReplay(replay));
+  } catch {
+    // Storage full or unavailable; the replay just won't be kept
+  }
+};
+
+// Load the most recent run, if there is a readable one
+export const loadLastReplay = (): Replay | null => {
+  const stored = localStorage.getItem(LAST_REPLAY_KEY);
+  if (!stored) return null;
+
+  try {
+    return decodeReplay(stored);
+  } catch {
+    return null;
+  }
+};
+
+// Save a replay to a file on the player's device
+export const downloadReplay = (replay: Replay, fileName = "replay.json") =>
+  downloadJson(encodeReplay(replay), fileName);
+
+// Read a replay from a file the player picked
+export const readReplayFile = async (file: File) =>
+  decodeReplay(await file.text());
@@ -0,0 +1,32 @@
+export type RendererType = "canvas" | "dom";
+
+export interface GameSettings {
+  renderer: RendererType;
+  debugOverlay: boolean;
+}
+
+const SETTINGS_KEY = "drone-defense:settings";
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  renderer: "canvas",
+  debugOverlay: false,
+};
+
+// Load saved settings, falling back to the defaults for anything missing
+export const loadSettings = (): GameSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Persist settings for the next visit
+export const saveSettings = (settings: GameSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable; settings only last for this session
+  }
+};
@@ -0,0 +1,27 @@
+import { parseStageScripts, StageScript } from "../game/stageScripts";
+import { downloadJson } from "./download";
+
+// The stage list in the layout of src/game/stages.json
+export const encodeStageFile = (scripts: StageScript[]) =>
+  JSON.stringify(scripts, null, 2);
+
+// Read a stage list, throwing with the problems found if it's invalid
+export const decodeStageFile = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Stage file is not valid JSON");
+  }
+  return parseStageScripts(data);
+};
+
+// Save the stage list to a file, ready to drop in as stages.json
+export const downloadStageFile = (
+  scripts: StageScript[],
+  fileName = "stages.json",
+) => downloadJson(encodeStageFile(scripts), fileName);
+
+// Read a stage list from a file the designer picked
+export const readStageFile = async (file: File) =>
+  decodeStageFile(await file.text());
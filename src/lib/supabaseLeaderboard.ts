@@ -0,0 +1,103 @@
+import { createClient } from "@supabase/supabase-js";
+import { BulletType } from "../game/types";
+import { Database, Tables } from "../types/supabase";
+import {
+  getPageCount,
+  getWeekStart,
+  LEADERBOARD_PAGE_SIZE,
+  LeaderboardService,
+} from "./leaderboard";
+
+// Convert a scores row into a board entry
+const toEntry = (row: Tables<"scores">, rank: number) => ({
+  id: row.id,
+  rank,
+  initials: row.initials,
+  score: row.score,
+  stage: row.stage,
+  maxCombo: row.max_combo,
+  duration: row.duration_ms,
+  bulletType: row.bullet_type as BulletType,
+  date: row.created_at,
+});
+
+// Leaderboard stored in the project's Supabase tables
+export const createSupabaseLeaderboard = (
+  url: string,
+  anonKey: string,
+): LeaderboardService => {
+  const client = createClient<Database>(url, anonKey);
+
+  return {
+    submitScore: async (submission) => {
+      const { error: playerError } = await client
+        .from("players")
+        .upsert({ id: submission.playerId, initials: submission.initials });
+      if (playerError) throw new Error(playerError.message);
+
+      // The run is stored alongside the score so it can be checked later.
+      // It shares the score's client-generated id, so resubmitting the score
+      // doesn't store the run twice either.
+      let runId: string | null = null;
+      if (submission.replay) {
+        const replay = JSON.parse(submission.replay);
+        const { error: runError } = await client.from("runs").upsert({
+          id: submission.id,
+          player_id: submission.playerId,
+          seed: replay.seed,
+          stage: replay.stage,
+          bullet_type: submission.bulletType,
+          width: replay.width,
+          height: replay.height,
+          replay,
+        });
+        if (runError) throw new Error(runError.message);
+        runId = submission.id;
+      }
+
+      // Upserting on the client-generated id makes resubmission harmless
+      const { error } = await client.from("scores").upsert({
+        id: submission.id,
+        player_id: submission.playerId,
+        run_id: runId,
+        initials: submission.initials,
+        score: submission.score,
+        stage: submission.stage,
+        max_combo: submission.maxCombo,
+        duration_ms: Math.round(submission.duration),
+        bullet_type: submission.bulletType,
+        created_at: submission.submittedAt,
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    getScores: async (board, page, pageSize = LEADERBOARD_PAGE_SIZE) => {
+      const offset = (page - 1) * pageSize;
+      // Only scores the verifier has re-simulated make it onto the boards
+      let query = client
+        .from("scores")
+        .select("*", { count: "exact" })
+        .eq("verified", true);
+
+      if (board.type === "weekly") {
+        query = query.gte("created_at", getWeekStart().toISOString());
+      } else if (board.type === "stage") {
+        query = query.eq("stage", board.stage);
+      }
+
+      const { data, count, error } = await query
+        .order("score", { ascending: false })
+        .order("created_at", { ascending: true })
+        .range(offset, offset + pageSize - 1);
+      if (error) throw new Error(error.message);
+
+      const total = count ?? 0;
+      return {
+        entries: data.map((row, index) => toEntry(row, offset + index + 1)),
+        page,
+        pageCount: getPageCount(total, pageSize),
+        total,
+      };
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { createClient } from "@supabase/supabase-js";
+import { Database, Tables } from "../types/supabase";
+
+// Where the verifier reads submitted scores from and records its verdicts
+export interface ScoreStore {
+  listPendingScores: () => Promise<Tables<"scores">[]>;
+  getRun: (id: string) => Promise<Tables<"runs"> | null>;
+  setVerified: (scoreId: string, verified: boolean) => Promise<void>;
+}
+
+// The tables kept in a local JSON file that stands in for the database
+export interface LocalDatabase {
+  players: Tables<"players">[];
+  runs: Tables<"runs">[];
+  scores: Tables<"scores">[];
+}
+
+const EMPTY_DATABASE: LocalDatabase = { players: [], runs: [], scores: [] };
+
+// Read the local database, starting an empty one if the file doesn't exist
+const readDatabase = async (path: string): Promise<LocalDatabase> => {
+  try {
+    return { ...EMPTY_DATABASE, ...JSON.parse(await readFile(path, "utf8")) };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return EMPTY_DATABASE;
+    }
+    throw err;
+  }
+};
+
+// Scores kept in a local JSON file, for development without Supabase
+export const createLocalScoreStore = (path: string): ScoreStore => ({
+  listPendingScores: async () =>
+    (await readDatabase(path)).scores.filter(
+      (score) => score.verified === null,
+    ),
+  getRun: async (id) =>
+    (await readDatabase(path)).runs.find((run) => run.id === id) ?? null,
+  setVerified: async (scoreId, verified) => {
+    const database = await readDatabase(path);
+    const score = database.scores.find((row) => row.id === scoreId);
+    if (!score) return;
+
+    score.verified = verified;
+    await writeFile(path, JSON.stringify(database, null, 2));
+  },
+});
+
+// Scores in the project's Supabase tables. Needs the service role key, since
+// players can't mark their own scores as verified.
+export const createSupabaseScoreStore = (
+  url: string,
+  serviceRoleKey: string,
+): ScoreStore => {
+  const client = createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  return {
+    listPendingScores: async () => {
+      const { data, error } = await client
+        .from("scores")
+        .select("*")
+        .is("verified", null);
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    getRun: async (id) => {
+      const { data, error } = await client
+        .from("runs")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    setVerified: async (scoreId, verified) => {
+      const { error } = await client
+        .from("scores")
+        .update({ verified })
+        .eq("id", scoreId);
+      if (error) throw new Error(error.message);
+    },
+  };
+};
@@ -0,0 +1,69 @@
+// Re-simulates submitted runs and marks each pending score as verified or
+// rejected. Runs against Supabase when SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are set, otherwise against a local JSON database.
+//
+//   npm run verify-scores -- [--db local-db.json] [--watch]
+import { checkRun } from "../game/verification";
+import {
+  createLocalScoreStore,
+  createSupabaseScoreStore,
+  ScoreStore,
+} from "./scoreStore";
+
+const WATCH_INTERVAL = 5000; // milliseconds between checks in watch mode
+
+// Check every score that hasn't been looked at yet
+export const verifyPendingScores = async (store: ScoreStore) => {
+  const scores = await store.listPendingScores();
+  let accepted = 0;
+
+  for (const score of scores) {
+    const run = score.run_id ? await store.getRun(score.run_id) : null;
+    const rejection = checkRun(
+      {
+        score: score.score,
+        stage: score.stage,
+        maxCombo: score.max_combo,
+        duration: score.duration_ms,
+      },
+      run && JSON.stringify(run.replay),
+    );
+
+    await store.setVerified(score.id, rejection === null);
+    if (rejection === null) {
+      accepted += 1;
+    } else {
+      console.log(`Rejected ${score.initials} ${score.score}: ${rejection}`);
+    }
+  }
+
+  return { checked: scores.length, accepted };
+};
+
+const getArgument = (name: string) => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const main = async () => {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+  const store =
+    SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+      ? createSupabaseScoreStore(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+      : createLocalScoreStore(getArgument("--db") ?? "local-db.json");
+
+  do {
+    const { checked, accepted } = await verifyPendingScores(store);
+    if (checked > 0) {
+      console.log(`Checked ${checked} scores, ${accepted} accepted`);
+    }
+    if (process.argv.includes("--watch")) {
+      await new Promise((resolve) => setTimeout(resolve, WATCH_INTERVAL));
+    }
+  } while (process.argv.includes("--watch"));
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
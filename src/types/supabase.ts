@@ -0,0 +1,214 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      players: {
+        Row: {
+          created_at: string
+          id: string
+          initials: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          initials: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          initials?: string
+        }
+        Relationships: []
+      }
+      runs: {
+        Row: {
+          bullet_type: string
+          created_at: string
+          height: number
+          id: string
+          player_id: string
+          replay: Json
+          seed: number
+          stage: number
+          width: number
+        }
+        Insert: {
+          bullet_type: string
+          created_at?: string
+          height: number
+          id?: string
+          player_id: string
+          replay: Json
+          seed: number
+          stage: number
+          width: number
+        }
+        Update: {
+          bullet_type?: string
+          created_at?: string
+          height?: number
+          id?: string
+          player_id?: string
+          replay?: Json
+          seed?: number
+          stage?: number
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "runs_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scores: {
+        Row: {
+          bullet_type: string
+          created_at: string
+          duration_ms: number
+          id: string
+          initials: string
+          max_combo: number
+          player_id: string
+          run_id: string | null
+          score: number
+          stage: number
+          verified: boolean | null
+        }
+        Insert: {
+          bullet_type: string
+          created_at?: string
+          duration_ms: number
+          id?: string
+          initials: string
+          max_combo?: number
+          player_id: string
+          run_id?: string | null
+          score: number
+          stage: number
+          verified?: boolean | null
+        }
+        Update: {
+          bullet_type?: string
+          created_at?: string
+          duration_ms?: number
+          id?: string
+          initials?: string
+          max_combo?: number
+          player_id?: string
+          run_id?: string | null
+          score?: number
+          stage?: number
+          verified?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scores_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "players"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scores_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: true
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  PublicTableNameOrOptions extends
+    | keyof (PublicSchema["Tables"] & PublicSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+        Database[PublicTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+      Database[PublicTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : PublicTableNameOrOptions extends keyof (PublicSchema["Tables"] &
+        PublicSchema["Views"])
+    ? (PublicSchema["Tables"] &
+        PublicSchema["Views"])[PublicTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never